@@ -8,6 +8,7 @@ import { ThemeProvider } from "@/contexts/ThemeContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Chat from "./pages/Chat";
+import Starred from "./pages/Starred";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +25,7 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/chat/:id" element={<Chat />} />
+              <Route path="/starred" element={<Starred />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -6,6 +6,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import EmojiPicker from '@/components/chat/EmojiPicker';
+import { DEFAULT_QUICK_REACTIONS } from '@/lib/emojis';
 import { toast } from 'sonner';
 import { Settings, Camera, Loader2, Clock, Trash2 } from 'lucide-react';
 
@@ -15,6 +18,7 @@ interface Profile {
   full_name: string | null;
   avatar_url: string | null;
   last_name_change: string | null;
+  quick_reactions: string[] | null;
 }
 
 const AccountSettings = () => {
@@ -27,6 +31,9 @@ const AccountSettings = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [countdown, setCountdown] = useState<string | null>(null);
   const [canChangeName, setCanChangeName] = useState(true);
+  const [quickReactions, setQuickReactions] = useState<string[]>(DEFAULT_QUICK_REACTIONS);
+  const [editingReactionIndex, setEditingReactionIndex] = useState<number | null>(null);
+  const [isSavingReactions, setIsSavingReactions] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const NAME_CHANGE_COOLDOWN_HOURS = 12;
@@ -54,13 +61,14 @@ const AccountSettings = () => {
     setIsLoading(true);
     const { data, error } = await supabase
       .from('profiles')
-      .select('id, username, full_name, avatar_url, last_name_change')
+      .select('id, username, full_name, avatar_url, last_name_change, quick_reactions')
       .eq('id', user.id)
       .single();
 
     if (!error && data) {
       setProfile(data);
       setNewName(data.full_name || '');
+      setQuickReactions(data.quick_reactions || DEFAULT_QUICK_REACTIONS);
     }
     setIsLoading(false);
   };
@@ -206,6 +214,32 @@ const AccountSettings = () => {
     }
   };
 
+  const handleSaveQuickReactions = async (reactions: string[] | null) => {
+    if (!user) return;
+
+    setIsSavingReactions(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ quick_reactions: reactions })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      setProfile(prev => prev ? { ...prev, quick_reactions: reactions } : null);
+      setQuickReactions(reactions || DEFAULT_QUICK_REACTIONS);
+      toast.success('Quick reactions updated!');
+    } catch (error) {
+      console.error('Quick reactions update error:', error);
+      toast.error('Failed to update quick reactions');
+    } finally {
+      setIsSavingReactions(false);
+    }
+  };
+
+  const savedQuickReactions = profile?.quick_reactions || DEFAULT_QUICK_REACTIONS;
+  const quickReactionsChanged = quickReactions.join() !== savedQuickReactions.join();
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -320,6 +354,65 @@ const AccountSettings = () => {
                 @{profile?.username || 'unknown'}
               </p>
             </div>
+
+            {/* Quick Reactions Section */}
+            <div className="space-y-3">
+              <Label>Quick Reactions</Label>
+              <p className="text-sm text-muted-foreground">
+                Tap an emoji to swap it. These show first when you react to a message.
+              </p>
+              <div className="flex gap-2">
+                {quickReactions.map((emoji, index) => (
+                  <Popover
+                    key={index}
+                    open={editingReactionIndex === index}
+                    onOpenChange={(open) => setEditingReactionIndex(open ? index : null)}
+                  >
+                    <PopoverTrigger asChild>
+                      <button
+                        className="w-10 h-10 flex items-center justify-center rounded-lg bg-muted text-xl hover:bg-accent transition-colors"
+                        aria-label={`Change quick reaction ${index + 1}`}
+                      >
+                        {emoji}
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0">
+                      <EmojiPicker
+                        onSelect={(picked) => {
+                          if (quickReactions.some((e, i) => i !== index && e === picked)) {
+                            toast.error(`${picked} is already one of your quick reactions`);
+                            return;
+                          }
+                          setQuickReactions(prev => prev.map((e, i) => (i === index ? picked : e)));
+                          setEditingReactionIndex(null);
+                        }}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleSaveQuickReactions(quickReactions)}
+                  disabled={isSavingReactions || !quickReactionsChanged}
+                >
+                  {isSavingReactions ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    'Save'
+                  )}
+                </Button>
+                {profile?.quick_reactions && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleSaveQuickReactions(null)}
+                    disabled={isSavingReactions}
+                  >
+                    Reset to default
+                  </Button>
+                )}
+              </div>
+            </div>
           </div>
         )}
       </DialogContent>
@@ -1,11 +1,23 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { formatDistanceToNow } from 'date-fns';
-import { Globe, MoreVertical, Trash2 } from 'lucide-react';
+import { Globe, Loader2, MoreVertical, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { WORLD_CHAT_ID } from '@/lib/constants';
+import {
+  CONVERSATION_PAGE_SIZE,
+  ConversationWithDetails,
+  fetchConversationList,
+  fetchConversationSummary,
+  getConversationTitle,
+  sortConversations,
+} from '@/lib/conversations';
+import { getThemeById } from '@/lib/chatThemes';
+import { toPlainText } from '@/lib/richText';
+import { Tables } from '@/integrations/supabase/types';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,33 +36,25 @@ import {
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 
-interface ConversationWithDetails {
-  id: string;
-  is_group: boolean;
-  name: string | null;
-  updated_at: string;
-  otherUser: {
-    id: string;
-    username: string | null;
-    full_name: string | null;
-    avatar_url: string | null;
-    is_online: boolean;
-  } | null;
-  lastMessage: {
-    content: string;
-    created_at: string;
-    sender_id: string;
-    senderName?: string;
-  } | null;
-  unreadCount: number;
-  participantCount?: number;
-}
+// A new message's sender name when the row already knows it, or null if it has to be loaded
+const getKnownSenderName = (convo: ConversationWithDetails, senderId: string, userId: string): string | null => {
+  if (senderId === userId) return 'You';
+  if (senderId === convo.lastMessage?.sender_id) return convo.lastMessage.senderName || null;
+  if (senderId === convo.otherUser?.id) return convo.otherUser.full_name || convo.otherUser.username || 'Unknown';
+  return null;
+};
 
 const ChatList = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Last row of the latest page as the server sent it; the next page is read after it
+  const pageCursorRef = useRef<ConversationWithDetails | null>(null);
+  // Latest list for the realtime handler, which is subscribed once
+  const conversationsRef = useRef<ConversationWithDetails[]>([]);
   const [deleteTarget, setDeleteTarget] = useState<ConversationWithDetails | null>(null);
   const [deleting, setDeleting] = useState(false);
 
@@ -72,156 +76,128 @@ const ChatList = () => {
     }
   };
 
-  const fetchConversations = async () => {
-    if (!user) return;
-
-    // Get user's conversations
-    const { data: participations, error: partError } = await supabase
-      .from('conversation_participants')
-      .select('conversation_id')
-      .eq('user_id', user.id);
-
-    if (partError || !participations?.length) {
-      setConversations([]);
-      setLoading(false);
-      return;
-    }
-
-    const conversationIds = participations.map(p => p.conversation_id);
-
-    // Get conversation details
-    const { data: convos, error: convoError } = await supabase
-      .from('conversations')
-      .select('*')
-      .in('id', conversationIds)
-      .order('updated_at', { ascending: false });
-
-    if (convoError || !convos) {
-      setConversations([]);
-      setLoading(false);
-      return;
-    }
-
-    // Get other participants for each conversation
-    const conversationsWithDetails: ConversationWithDetails[] = await Promise.all(
-      convos.map(async (convo) => {
-        const isWorldChat = convo.id === WORLD_CHAT_ID;
-
-        // For World Chat, get participant count instead of single user
-        if (isWorldChat) {
-          const { count: participantCount } = await supabase
-            .from('conversation_participants')
-            .select('*', { count: 'exact', head: true })
-            .eq('conversation_id', convo.id);
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
 
-          // Get last message with sender info
-          const { data: lastMsg } = await supabase
-            .from('messages')
-            .select('content, created_at, sender_id')
-            .eq('conversation_id', convo.id)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .maybeSingle();
+  // World Chat is pinned to the first page, so a page's cursor is its last other chat
+  const setPageCursor = (page: ConversationWithDetails[]) => {
+    const others = page.filter(c => c.id !== WORLD_CHAT_ID);
+    if (others.length > 0) pageCursorRef.current = others[others.length - 1];
+  };
 
-          let senderName: string | undefined;
-          if (lastMsg && lastMsg.sender_id !== user.id) {
-            const { data: senderProfile } = await supabase
-              .from('profiles')
-              .select('full_name, username')
-              .eq('id', lastMsg.sender_id)
-              .maybeSingle();
-            senderName = senderProfile?.full_name || senderProfile?.username || 'Unknown';
-          }
+  const fetchConversations = useCallback(async () => {
+    if (!user) return;
 
-          // Get unread count
-          const { count: unreadCount } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('conversation_id', convo.id)
-            .eq('is_read', false)
-            .neq('sender_id', user.id);
+    const list = await fetchConversationList({ limit: CONVERSATION_PAGE_SIZE });
+    pageCursorRef.current = null;
+    setPageCursor(list);
+    setConversations(list);
+    setHasMore(list.length === CONVERSATION_PAGE_SIZE);
+    setLoading(false);
+  }, [user]);
 
-          return {
-            ...convo,
-            otherUser: null,
-            lastMessage: lastMsg ? { ...lastMsg, senderName } : null,
-            unreadCount: unreadCount || 0,
-            participantCount: participantCount || 0,
-          };
-        }
+  const loadMoreConversations = async () => {
+    const after = pageCursorRef.current;
+    if (!after || loadingMore) return;
 
-        // For 1:1 chats, get other participant
-        const { data: participants } = await supabase
-          .from('conversation_participants')
-          .select(`
-            user_id,
-            profiles!conversation_participants_user_id_fkey (
-              id,
-              username,
-              full_name,
-              avatar_url,
-              is_online,
-              last_seen
-            )
-          `)
-          .eq('conversation_id', convo.id)
-          .neq('user_id', user.id)
-          .maybeSingle();
+    setLoadingMore(true);
+    const page = await fetchConversationList({ limit: CONVERSATION_PAGE_SIZE, after });
+    setPageCursor(page);
+    // Realtime updates may already have added some of these rows
+    setConversations(prev => sortConversations([
+      ...prev,
+      ...page.filter(c => !prev.some(p => p.id === c.id)),
+    ]));
+    setHasMore(page.length === CONVERSATION_PAGE_SIZE);
+    setLoadingMore(false);
+  };
 
-        // Get last message
-        const { data: lastMsg } = await supabase
-          .from('messages')
-          .select('content, created_at, sender_id')
-          .eq('conversation_id', convo.id)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .maybeSingle();
+  // Replace (or add) a single row with a fresh copy from the server
+  const refreshConversation = useCallback(async (conversationId: string) => {
+    const convo = await fetchConversationSummary(conversationId);
+    if (!convo) return null;
+    setConversations(prev => sortConversations([...prev.filter(c => c.id !== convo.id), convo]));
+    return convo;
+  }, []);
 
-        // Get unread count
-        const { count: unreadCount } = await supabase
-          .from('messages')
-          .select('*', { count: 'exact', head: true })
-          .eq('conversation_id', convo.id)
-          .eq('is_read', false)
-          .neq('sender_id', user.id);
+  // Patch the row for a new message in place when everything it needs is known
+  const handleMessageInserted = useCallback(async (message: Tables<'messages'>) => {
+    if (!user) return;
 
-        return {
-          ...convo,
-          otherUser: (participants?.profiles as any) || null,
-          lastMessage: lastMsg || null,
-          unreadCount: unreadCount || 0,
-        };
-      })
-    );
+    const existing = conversationsRef.current.find(c => c.id === message.conversation_id);
+    const senderName = existing ? getKnownSenderName(existing, message.sender_id, user.id) : null;
+    let convo: ConversationWithDetails | null;
 
-    // Sort: World Chat first, then by updated_at
-    const sorted = conversationsWithDetails.sort((a, b) => {
-      if (a.id === WORLD_CHAT_ID) return -1;
-      if (b.id === WORLD_CHAT_ID) return 1;
-      return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
-    });
+    if (existing && senderName) {
+      // System notices aren't counted as unread, matching the server's counts
+      const fromOthers = message.sender_id !== user.id && !message.system_event;
+      convo = {
+        ...existing,
+        lastActivityAt: message.created_at > existing.lastActivityAt ? message.created_at : existing.lastActivityAt,
+        lastMessage: {
+          id: message.id,
+          content: message.content,
+          created_at: message.created_at,
+          sender_id: message.sender_id,
+          senderName,
+        },
+        unreadCount: existing.unreadCount + (fromOthers ? 1 : 0),
+        mentionCount: existing.mentionCount + (fromOthers && message.mentions?.includes(user.id) ? 1 : 0),
+      };
+      setConversations(prev => sortConversations(prev.map(c => (c.id === convo.id ? convo : c))));
+    } else {
+      convo = await refreshConversation(message.conversation_id);
+    }
 
-    setConversations(sorted);
-    setLoading(false);
-  };
+    // Let the user know when someone @mentions them
+    if (message.sender_id !== user.id && message.mentions?.includes(user.id)) {
+      toast(`You were mentioned in ${convo ? getConversationTitle(convo) : 'a chat'}`, {
+        action: {
+          label: 'Open',
+          onClick: () => navigate(`/chat/${message.conversation_id}`),
+        },
+      });
+    }
+  }, [user, navigate, refreshConversation]);
 
   useEffect(() => {
     fetchConversations();
 
-    // Subscribe to realtime message updates
+    // Keep rows up to date from message changes instead of reloading the whole list
     const channel = supabase
       .channel('chat-list-updates')
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'messages' },
-        () => fetchConversations()
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => handleMessageInserted(payload.new as Tables<'messages'>)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages' },
+        (payload) => {
+          // Edits and deletions only matter for the message a row previews
+          const updated = payload.new as Tables<'messages'>;
+          const convo = conversationsRef.current.find(c => c.lastMessage?.id === updated.id);
+          if (convo) refreshConversation(convo.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          // DELETE payloads only carry the id, so match it against the previewed messages
+          const deleted = payload.old as { id: string };
+          const convo = conversationsRef.current.find(c => c.lastMessage?.id === deleted.id);
+          if (convo) refreshConversation(convo.id);
+        }
       )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [fetchConversations, handleMessageInserted, refreshConversation]);
 
   if (loading) {
     return (
@@ -289,7 +265,7 @@ const ChatList = () => {
             <div className="flex-1 min-w-0 text-left">
               <div className="flex items-center justify-between gap-2">
                 <p className={`font-semibold truncate ${isWorldChat ? 'text-primary' : 'text-foreground'}`}>
-                  {isWorldChat ? 'World Chat' : (convo.otherUser?.full_name || convo.otherUser?.username || 'Unknown')}
+                  {getConversationTitle(convo)}
                 </p>
                 {convo.lastMessage && (
                   <span className="text-xs text-muted-foreground flex-shrink-0">
@@ -305,18 +281,28 @@ const ChatList = () => {
                   {convo.lastMessage
                     ? `${convo.lastMessage.sender_id === user?.id
                         ? 'You'
-                        : (convo.lastMessage.senderName || convo.otherUser?.full_name || '')}: ${convo.lastMessage.content}`
+                        : (convo.lastMessage.senderName || convo.otherUser?.full_name || '')}: ${toPlainText(convo.lastMessage.content)}`
                     : 'No messages yet'}
                 </p>
-                {convo.unreadCount > 0 && (
-                  <span className={`flex-shrink-0 min-w-5 h-5 px-1.5 flex items-center justify-center text-xs font-medium rounded-full ${
-                    isWorldChat
-                      ? 'bg-primary text-primary-foreground'
-                      : 'text-primary-foreground bg-primary'
-                  }`}>
-                    {convo.unreadCount}
-                  </span>
-                )}
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {convo.mentionCount > 0 && (
+                    <span
+                      className="flex-shrink-0 w-5 h-5 flex items-center justify-center text-xs font-bold rounded-full bg-amber-500 text-white"
+                      title={`${convo.mentionCount} unread mention${convo.mentionCount > 1 ? 's' : ''}`}
+                    >
+                      @
+                    </span>
+                  )}
+                  {convo.unreadCount > 0 && (
+                    <span className={`flex-shrink-0 min-w-5 h-5 px-1.5 flex items-center justify-center text-xs font-medium rounded-full ${
+                      isWorldChat
+                        ? 'bg-primary text-primary-foreground'
+                        : `text-white ${getThemeById(convo.theme).preview}`
+                    }`}>
+                      {convo.unreadCount}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -348,6 +334,18 @@ const ChatList = () => {
         );
       })}
 
+      {hasMore && (
+        <Button
+          variant="ghost"
+          className="w-full text-muted-foreground"
+          onClick={loadMoreConversations}
+          disabled={loadingMore}
+        >
+          {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {loadingMore ? 'Loading...' : 'Show more chats'}
+        </Button>
+      )}
+
       <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
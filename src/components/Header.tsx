@@ -2,13 +2,15 @@ import React from 'react';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Moon, Sun, LogOut, MessageCircle } from 'lucide-react';
+import { Moon, Sun, LogOut, MessageCircle, Star } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import AccountSettings from './AccountSettings';
 
 const Header = () => {
   const { theme, toggleTheme } = useTheme();
   const { signOut } = useAuth();
+  const navigate = useNavigate();
 
   const handleSignOut = async () => {
     await signOut();
@@ -26,6 +28,14 @@ const Header = () => {
         </div>
         
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/starred')}
+            className="rounded-full hover:bg-accent"
+          >
+            <Star className="w-5 h-5 text-muted-foreground" />
+          </Button>
           <AccountSettings />
           <Button
             variant="ghost"
@@ -3,10 +3,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Search, X, Loader2 } from 'lucide-react';
+import { Search, X, Loader2, Globe, FileText, MessageSquare, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
 import { WORLD_CHAT_ID } from '@/lib/constants';
+import { Database } from '@/integrations/supabase/types';
+import SearchHeadline from '@/components/chat/SearchHeadline';
 
 interface Profile {
   id: string;
@@ -15,11 +19,31 @@ interface Profile {
   avatar_url: string | null;
 }
 
+type RpcResult<Name extends 'search_conversations' | 'search_messages' | 'search_shared_files'> =
+  Database['public']['Functions'][Name]['Returns'][number];
+
+// One flat list across the groups so arrow keys move through every result
+type SearchItem =
+  | { kind: 'person'; key: string; profile: Profile }
+  | { kind: 'conversation'; key: string; conversation: RpcResult<'search_conversations'> }
+  | { kind: 'message'; key: string; message: RpcResult<'search_messages'> }
+  | { kind: 'file'; key: string; file: RpcResult<'search_shared_files'> };
+
+const GROUP_LABELS: Record<SearchItem['kind'], string> = {
+  person: 'People',
+  conversation: 'Conversations',
+  message: 'Messages',
+  file: 'Files',
+};
+
 const SearchBar = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<Profile[]>([]);
+  const [results, setResults] = useState<SearchItem[]>([]);
+  // Names of the senders of matched messages and files
+  const [senders, setSenders] = useState<Record<string, Profile>>({});
+  const [activeIndex, setActiveIndex] = useState(0);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [loadingUserId, setLoadingUserId] = useState<string | null>(null);
@@ -37,28 +61,49 @@ const SearchBar = () => {
   }, []);
 
   useEffect(() => {
-    const searchUsers = async () => {
+    const searchAll = async () => {
       if (!query.trim() || !user) {
         setResults([]);
         return;
       }
 
       setIsSearching(true);
-      
-      const { data, error } = await supabase
-        .rpc('search_users', { search_query: query.trim() });
+      const searchQuery = query.trim();
 
-      if (error) {
-        console.error('Search error:', error);
-        setResults([]);
-      } else {
-        setResults((data as Profile[]) || []);
+      const [people, conversations, messages, files] = await Promise.all([
+        supabase.rpc('search_users', { search_query: searchQuery }),
+        supabase.rpc('search_conversations', { _query: searchQuery }),
+        supabase.rpc('search_messages', { _query: searchQuery }),
+        supabase.rpc('search_shared_files', { _query: searchQuery }),
+      ]);
+
+      [people, conversations, messages, files].forEach(({ error }) => {
+        if (error) console.error('Search error:', error);
+      });
+
+      const senderIds = [...new Set([
+        ...(messages.data || []).map(m => m.sender_id),
+        ...(files.data || []).map(f => f.sender_id),
+      ])];
+      if (senderIds.length > 0) {
+        const { data: senderProfiles } = await supabase
+          .from('profiles')
+          .select('id, username, full_name, avatar_url')
+          .in('id', senderIds);
+        setSenders(Object.fromEntries((senderProfiles || []).map(p => [p.id, p])));
       }
-      
+
+      setResults([
+        ...((people.data as Profile[]) || []).map((profile): SearchItem => ({ kind: 'person', key: `person-${profile.id}`, profile })),
+        ...(conversations.data || []).map((conversation): SearchItem => ({ kind: 'conversation', key: `conversation-${conversation.conversation_id}`, conversation })),
+        ...(messages.data || []).map((message): SearchItem => ({ kind: 'message', key: `message-${message.id}`, message })),
+        ...(files.data || []).map((file): SearchItem => ({ kind: 'file', key: `file-${file.id}`, file })),
+      ]);
+      setActiveIndex(0);
       setIsSearching(false);
     };
 
-    const debounce = setTimeout(searchUsers, 300);
+    const debounce = setTimeout(searchAll, 300);
     return () => clearTimeout(debounce);
   }, [query, user]);
 
@@ -102,18 +147,156 @@ const SearchBar = () => {
     }
   };
 
+  const openChat = (conversationId: string, messageId?: string) => {
+    navigate(messageId ? `/chat/${conversationId}?message=${messageId}` : `/chat/${conversationId}`);
+    setQuery('');
+    setShowResults(false);
+  };
+
+  const selectItem = (item: SearchItem) => {
+    switch (item.kind) {
+      case 'person':
+        startConversation(item.profile);
+        break;
+      case 'conversation':
+        openChat(item.conversation.conversation_id);
+        break;
+      case 'message':
+        openChat(item.message.conversation_id, item.message.id);
+        break;
+      case 'file':
+        openChat(item.file.conversation_id, item.file.id);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowResults(false);
+      return;
+    }
+    if (!showResults || results.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectItem(results[Math.min(activeIndex, results.length - 1)]);
+    }
+  };
+
+  const senderName = (senderId: string) => {
+    if (senderId === user?.id) return 'You';
+    const sender = senders[senderId];
+    return sender?.full_name || sender?.username || 'Unknown';
+  };
+
+  const renderItem = (item: SearchItem) => {
+    switch (item.kind) {
+      case 'person':
+        return (
+          <>
+            <Avatar className="w-12 h-12">
+              <AvatarImage src={item.profile.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary">
+                {item.profile.full_name?.[0] || item.profile.username?.[0] || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="text-left flex-1">
+              <p className="font-medium text-foreground">
+                {item.profile.full_name || 'Unknown'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                @{item.profile.username || 'user'}
+              </p>
+            </div>
+            {loadingUserId === item.profile.id && (
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            )}
+          </>
+        );
+      case 'conversation': {
+        const { conversation } = item;
+        return (
+          <>
+            {conversation.other_user_id ? (
+              <Avatar className="w-12 h-12">
+                <AvatarImage src={conversation.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary">
+                  {conversation.full_name?.[0] || conversation.username?.[0] || '?'}
+                </AvatarFallback>
+              </Avatar>
+            ) : conversation.conversation_id === WORLD_CHAT_ID ? (
+              <div className="w-12 h-12 rounded-full bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                <Globe className="w-6 h-6 text-white" />
+              </div>
+            ) : (
+              <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+                <Users className="w-5 h-5 text-primary" />
+              </div>
+            )}
+            <div className="text-left flex-1">
+              <p className="font-medium text-foreground">
+                {conversation.conversation_id === WORLD_CHAT_ID
+                  ? 'World Chat'
+                  : conversation.full_name || conversation.username || conversation.name || 'Unknown'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Active {format(new Date(conversation.updated_at), 'MMM d')}
+              </p>
+            </div>
+          </>
+        );
+      }
+      case 'message':
+        return (
+          <>
+            <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+              <MessageSquare className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div className="text-left flex-1 min-w-0">
+              <p className="flex justify-between gap-2 text-xs text-muted-foreground mb-0.5">
+                <span className="font-semibold truncate">{senderName(item.message.sender_id)}</span>
+                <span className="flex-shrink-0">{format(new Date(item.message.created_at), 'MMM d, yyyy')}</span>
+              </p>
+              <SearchHeadline headline={item.message.headline} />
+            </div>
+          </>
+        );
+      case 'file':
+        return (
+          <>
+            <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+              <FileText className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div className="text-left flex-1 min-w-0">
+              <p className="font-medium text-foreground truncate">{item.file.file_name}</p>
+              <p className="text-sm text-muted-foreground truncate">
+                {senderName(item.file.sender_id)} · {format(new Date(item.file.created_at), 'MMM d, yyyy')}
+              </p>
+            </div>
+          </>
+        );
+    }
+  };
+
   return (
     <div ref={searchRef} className="relative">
       <div className="relative">
         <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
         <Input
-          placeholder="Search friends..."
+          placeholder="Search people, chats, messages and files..."
           value={query}
           onChange={(e) => {
             setQuery(e.target.value);
             setShowResults(true);
           }}
           onFocus={() => setShowResults(true)}
+          onKeyDown={handleKeyDown}
           className="pl-12 pr-10 h-12 rounded-2xl bg-muted border-0 focus-visible:ring-primary"
         />
         {query && (
@@ -137,37 +320,33 @@ const SearchBar = () => {
               Searching...
             </div>
           ) : results.length > 0 ? (
-            <div className="max-h-80 overflow-y-auto">
-              {results.map((profile) => (
-                <button
-                  key={profile.id}
-                  onClick={() => startConversation(profile)}
-                  disabled={loadingUserId !== null}
-                  className="w-full flex items-center gap-3 p-4 hover:bg-accent transition-colors disabled:opacity-50"
-                >
-                  <Avatar className="w-12 h-12">
-                    <AvatarImage src={profile.avatar_url || undefined} />
-                    <AvatarFallback className="bg-primary/10 text-primary">
-                      {profile.full_name?.[0] || profile.username?.[0] || '?'}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="text-left flex-1">
-                    <p className="font-medium text-foreground">
-                      {profile.full_name || 'Unknown'}
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      @{profile.username || 'user'}
+            <div className="max-h-96 overflow-y-auto" role="listbox">
+              {results.map((item, index) => (
+                <React.Fragment key={item.key}>
+                  {(index === 0 || results[index - 1].kind !== item.kind) && (
+                    <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      {GROUP_LABELS[item.kind]}
                     </p>
-                  </div>
-                  {loadingUserId === profile.id && (
-                    <Loader2 className="w-5 h-5 animate-spin text-primary" />
                   )}
-                </button>
+                  <button
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onClick={() => selectItem(item)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    disabled={loadingUserId !== null}
+                    className={cn(
+                      'w-full flex items-center gap-3 p-4 transition-colors disabled:opacity-50',
+                      index === activeIndex ? 'bg-accent' : 'hover:bg-accent'
+                    )}
+                  >
+                    {renderItem(item)}
+                  </button>
+                </React.Fragment>
               ))}
             </div>
           ) : (
             <div className="p-4 text-center text-muted-foreground">
-              No users found
+              No results found
             </div>
           )}
         </div>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+
+interface CodeBlockProps {
+  code: string;
+  // Prism language id from the opening fence; unknown languages render unhighlighted
+  language: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => (
+  <Highlight theme={themes.vsDark} code={code} language={language || 'text'}>
+    {({ style, tokens, getLineProps, getTokenProps }) => (
+      <pre
+        className="my-1 p-3 rounded-lg text-xs font-mono overflow-x-auto whitespace-pre not-italic"
+        style={style}
+      >
+        {tokens.map((line, lineIndex) => (
+          <div key={lineIndex} {...getLineProps({ line })}>
+            {line.map((token, tokenIndex) => (
+              <span key={tokenIndex} {...getTokenProps({ token })} />
+            ))}
+          </div>
+        ))}
+      </pre>
+    )}
+  </Highlight>
+);
+
+export default CodeBlock;
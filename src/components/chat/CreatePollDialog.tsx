@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Plus, X } from 'lucide-react';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+
+interface CreatePollDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (question: string, options: string[], allowsMultiple: boolean, isAnonymous: boolean) => Promise<void>;
+}
+
+const CreatePollDialog: React.FC<CreatePollDialogProps> = ({ open, onOpenChange, onCreate }) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [allowsMultiple, setAllowsMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setQuestion('');
+    setOptions(['', '']);
+    setAllowsMultiple(false);
+    setIsAnonymous(false);
+  }, [open]);
+
+  const filledOptions = options.map((option) => option.trim()).filter(Boolean);
+  const canCreate = !!question.trim() && filledOptions.length >= MIN_OPTIONS;
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? value : option)));
+  };
+
+  const removeOption = (index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setSaving(true);
+    try {
+      await onCreate(question.trim(), filledOptions, allowsMultiple, isAnonymous);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Create poll</DialogTitle>
+          <DialogDescription>
+            Ask a question with up to {MAX_OPTIONS} options.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="poll-question">Question</Label>
+          <Input
+            id="poll-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask something..."
+            maxLength={300}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Options</Label>
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={option}
+                  onChange={(e) => updateOption(index, e.target.value)}
+                  placeholder={`Option ${index + 1}`}
+                  maxLength={100}
+                />
+                {options.length > MIN_OPTIONS && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0 rounded-full"
+                    onClick={() => removeOption(index)}
+                    aria-label="Remove option"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          {options.length < MAX_OPTIONS && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              onClick={() => setOptions((prev) => [...prev, ''])}
+            >
+              <Plus className="w-4 h-4" />
+              Add option
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="poll-multiple">Allow multiple answers</Label>
+            <Switch id="poll-multiple" checked={allowsMultiple} onCheckedChange={setAllowsMultiple} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="poll-anonymous">Anonymous voting</Label>
+            <Switch id="poll-anonymous" checked={isAnonymous} onCheckedChange={setIsAnonymous} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={!canCreate || saving} className="w-full">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Send poll'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreatePollDialog;
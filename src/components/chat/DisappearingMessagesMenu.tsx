@@ -0,0 +1,76 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Timer } from 'lucide-react';
+import { MESSAGE_TTL_OPTIONS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+interface DisappearingMessagesMenuProps {
+  ttlSeconds: number | null;
+  // Same rule as pinning: anyone in a 1:1 chat, admins elsewhere
+  canChange: boolean;
+  onChange: (ttlSeconds: number | null) => void;
+}
+
+const DisappearingMessagesMenu: React.FC<DisappearingMessagesMenuProps> = ({
+  ttlSeconds,
+  canChange,
+  onChange,
+}) => {
+  const current = MESSAGE_TTL_OPTIONS.find((option) => option.seconds === ttlSeconds);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('rounded-full hover:bg-accent', current && 'text-primary')}
+          aria-label="Disappearing messages"
+        >
+          <Timer className="w-5 h-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>
+          Disappearing messages
+          <p className="text-xs font-normal text-muted-foreground">
+            {canChange
+              ? 'New messages disappear after the chosen time'
+              : current
+                ? `New messages disappear after ${current.label}`
+                : 'Only admins can turn this on'}
+          </p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={String(ttlSeconds ?? 'off')}
+          onValueChange={(value) => onChange(value === 'off' ? null : Number(value))}
+        >
+          <DropdownMenuRadioItem value="off" disabled={!canChange}>
+            Off
+          </DropdownMenuRadioItem>
+          {MESSAGE_TTL_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem
+              key={option.seconds}
+              value={String(option.seconds)}
+              disabled={!canChange}
+            >
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DisappearingMessagesMenu;
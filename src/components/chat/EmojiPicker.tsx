@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Clock, Search } from 'lucide-react';
+import { EMOJI_CATEGORIES, EmojiInfo } from '@/lib/emojiData';
+import {
+  SKIN_TONES,
+  addRecentEmoji,
+  applySkinTone,
+  getRecentEmojis,
+  getSkinTone,
+  searchEmojis,
+  setSkinTone,
+} from '@/lib/emojis';
+import { cn } from '@/lib/utils';
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  className?: string;
+}
+
+/** Searchable, categorized emoji grid with recents and a skin tone choice. Meant for a popover. */
+const EmojiPicker: React.FC<EmojiPickerProps> = ({ onSelect, className }) => {
+  const [query, setQuery] = useState('');
+  const [skinTone, setSkinToneState] = useState(getSkinTone);
+  const [tonePickerOpen, setTonePickerOpen] = useState(false);
+  const [recent, setRecent] = useState(getRecentEmojis);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const results = query.trim() ? searchEmojis(query) : null;
+
+  const handleSelect = (emoji: string) => {
+    addRecentEmoji(emoji);
+    setRecent(getRecentEmojis());
+    onSelect(emoji);
+  };
+
+  const chooseSkinTone = (modifier: string) => {
+    setSkinTone(modifier);
+    setSkinToneState(modifier);
+    setTonePickerOpen(false);
+  };
+
+  const scrollToSection = (sectionId: string) => {
+    const container = scrollRef.current;
+    const section = container?.querySelector(`[data-section="${sectionId}"]`);
+    // The scroll container is positioned, so offsetTop is relative to it
+    if (container && section instanceof HTMLElement) {
+      container.scrollTop = section.offsetTop;
+    }
+  };
+
+  const renderGrid = (emojis: string[]) => (
+    <div className="grid grid-cols-8 gap-0.5">
+      {emojis.map((emoji) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => handleSelect(emoji)}
+          className="h-8 w-8 flex items-center justify-center rounded-md text-xl hover:bg-accent transition-colors"
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+
+  const withTone = (emojis: EmojiInfo[]) =>
+    emojis.map((info) => (info.skinTones ? applySkinTone(info.emoji, skinTone) : info.emoji));
+
+  return (
+    <div className={cn('w-80 flex flex-col', className)}>
+      <div className="flex items-center gap-2 p-2 border-b border-border">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search emoji"
+            className="h-8 pl-8"
+            autoFocus
+          />
+        </div>
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setTonePickerOpen((open) => !open)}
+            className="h-8 w-8 flex items-center justify-center rounded-md text-lg hover:bg-accent"
+            aria-label="Skin tone"
+          >
+            {applySkinTone('✋', skinTone)}
+          </button>
+          {tonePickerOpen && (
+            <div className="absolute right-0 top-full mt-1 z-10 flex gap-0.5 p-1 rounded-lg border border-border bg-popover shadow-md">
+              {SKIN_TONES.map((tone) => (
+                <button
+                  key={tone.label}
+                  type="button"
+                  onClick={() => chooseSkinTone(tone.modifier)}
+                  className={cn(
+                    'h-8 w-8 flex items-center justify-center rounded-md text-lg hover:bg-accent',
+                    tone.modifier === skinTone && 'bg-accent'
+                  )}
+                  aria-label={tone.label}
+                >
+                  {applySkinTone('✋', tone.modifier)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!results && (
+        <div className="flex items-center justify-between px-2 pt-1 border-b border-border">
+          <button
+            type="button"
+            onClick={() => scrollToSection('recent')}
+            className="h-8 w-7 flex items-center justify-center rounded-md text-muted-foreground hover:bg-accent"
+            aria-label="Recently used"
+          >
+            <Clock className="w-4 h-4" />
+          </button>
+          {EMOJI_CATEGORIES.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => scrollToSection(category.id)}
+              className="h-8 w-7 flex items-center justify-center rounded-md text-base hover:bg-accent"
+              aria-label={category.label}
+            >
+              {category.icon}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="relative h-72 overflow-y-auto p-2 space-y-3">
+        {results ? (
+          results.length > 0 ? (
+            renderGrid(withTone(results))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No emoji found</p>
+          )
+        ) : (
+          <>
+            <div data-section="recent">
+              <p className="text-xs font-semibold text-muted-foreground mb-1">Recently used</p>
+              {recent.length > 0 ? (
+                renderGrid(recent)
+              ) : (
+                <p className="text-xs text-muted-foreground py-2">Emojis you use show up here</p>
+              )}
+            </div>
+            {EMOJI_CATEGORIES.map((category) => (
+              <div key={category.id} data-section={category.id}>
+                <p className="text-xs font-semibold text-muted-foreground mb-1">{category.label}</p>
+                {renderGrid(withTone(category.emojis))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmojiPicker;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Bold, Code, Italic, List, SquareCode, Strikethrough, TextQuote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FORMAT_SHORTCUT_LABELS, FormatAction } from '@/lib/composerFormatting';
+
+interface FormattingToolbarProps {
+  onFormat: (action: FormatAction) => void;
+}
+
+const TOOLS: Array<{ action: FormatAction; label: string; icon: React.ElementType }> = [
+  { action: 'bold', label: 'Bold', icon: Bold },
+  { action: 'italic', label: 'Italic', icon: Italic },
+  { action: 'strike', label: 'Strikethrough', icon: Strikethrough },
+  { action: 'code', label: 'Code', icon: Code },
+  { action: 'codeBlock', label: 'Code block', icon: SquareCode },
+  { action: 'quote', label: 'Quote', icon: TextQuote },
+  { action: 'list', label: 'List', icon: List },
+];
+
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ onFormat }) => {
+  return (
+    <div className="max-w-2xl mx-auto mb-2 flex items-center gap-1">
+      {TOOLS.map(({ action, label, icon: Icon }) => (
+        <Button
+          key={action}
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 rounded-lg"
+          title={`${label} (${FORMAT_SHORTCUT_LABELS[action]})`}
+          aria-label={label}
+          // Keep focus (and the selection) in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onFormat(action)}
+        >
+          <Icon className="w-4 h-4" />
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default FormattingToolbar;
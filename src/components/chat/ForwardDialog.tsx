@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Globe, Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { WORLD_CHAT_ID } from '@/lib/constants';
+import { ConversationWithDetails, fetchConversationList, getConversationTitle } from '@/lib/conversations';
+import { MessageData } from './MessageBubble';
+
+interface ForwardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  message: MessageData | null;
+}
+
+const ForwardDialog: React.FC<ForwardDialogProps> = ({
+  open,
+  onOpenChange,
+  message,
+}) => {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [forwarding, setForwarding] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const loadConversations = async () => {
+      setLoading(true);
+      setConversations(await fetchConversationList());
+      setLoading(false);
+    };
+
+    setQuery('');
+    setSelectedIds(new Set());
+    loadConversations();
+  }, [open, user]);
+
+  const toggleSelected = (conversationId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(conversationId)) {
+        next.delete(conversationId);
+      } else {
+        next.add(conversationId);
+      }
+      return next;
+    });
+  };
+
+  const handleForward = async () => {
+    if (!user || !message || selectedIds.size === 0) return;
+
+    setForwarding(true);
+    const targets = Array.from(selectedIds);
+
+    // Re-post the message as-is; media_url already holds the gallery JSON for galleries
+    const { error } = await supabase.from('messages').insert(
+      targets.map(conversationId => ({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        content: message.content,
+        media_url: message.media_url ?? null,
+        media_type: message.media_type ?? null,
+        // Keeps a voice note's waveform and duration
+        media_metadata: message.media_metadata ?? null,
+        link_preview_url: message.link_preview_url ?? null,
+        is_forwarded: true,
+      }))
+    );
+
+    if (error) {
+      console.error('Error forwarding message:', error);
+      toast.error('Failed to forward message');
+      setForwarding(false);
+      return;
+    }
+
+    // Bump the target conversations so they surface in the chat list
+    await supabase
+      .from('conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .in('id', targets);
+
+    toast.success(targets.length === 1 ? 'Message forwarded' : `Message forwarded to ${targets.length} chats`);
+    setForwarding(false);
+    onOpenChange(false);
+  };
+
+  const filtered = conversations.filter(convo =>
+    getConversationTitle(convo).toLowerCase().includes(query.trim().toLowerCase()) ||
+    (convo.otherUser?.username || '').toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Forward to...</DialogTitle>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search chats..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9 bg-muted border-0"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No chats found</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto -mx-2">
+            {filtered.map((convo) => {
+              const isWorldChat = convo.id === WORLD_CHAT_ID;
+              const title = getConversationTitle(convo);
+
+              return (
+                <label
+                  key={convo.id}
+                  className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-accent cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedIds.has(convo.id)}
+                    onCheckedChange={() => toggleSelected(convo.id)}
+                  />
+                  {isWorldChat ? (
+                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                      <Globe className="w-5 h-5 text-white" />
+                    </div>
+                  ) : (
+                    <Avatar className="w-10 h-10">
+                      <AvatarImage src={convo.otherUser?.avatar_url || undefined} />
+                      <AvatarFallback className="bg-primary/10 text-primary">
+                        {title[0] || '?'}
+                      </AvatarFallback>
+                    </Avatar>
+                  )}
+                  <span className={`font-medium truncate ${isWorldChat ? 'text-primary' : 'text-foreground'}`}>
+                    {title}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleForward}
+            disabled={selectedIds.size === 0 || forwarding}
+            className="w-full"
+          >
+            {forwarding ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              `Forward${selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForwardDialog;
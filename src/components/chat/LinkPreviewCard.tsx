@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LinkPreview, loadLinkPreview } from '@/lib/linkPreviews';
+import { cn } from '@/lib/utils';
+
+interface LinkPreviewCardProps {
+  url: string;
+  // Composer: fetch the preview through the edge function and allow removing it
+  unfurl?: boolean;
+  onRemove?: () => void;
+  className?: string;
+}
+
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({
+  url,
+  unfurl = false,
+  onRemove,
+  className,
+}) => {
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+
+    loadLinkPreview(url, { unfurl }).then((loaded) => {
+      if (!cancelled) setPreview(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, unfurl]);
+
+  if (!preview || (!preview.title && !preview.description && !preview.image_url)) return null;
+
+  return (
+    <div className={cn('relative flex gap-3 rounded-lg overflow-hidden bg-black/5 border-l-2 border-primary', className)}>
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex-1 min-w-0 flex gap-3 p-2 not-italic"
+      >
+        {preview.image_url && (
+          <img
+            src={preview.image_url}
+            alt=""
+            loading="lazy"
+            className="w-16 h-16 rounded object-cover flex-shrink-0"
+            onError={(e) => {
+              e.currentTarget.style.display = 'none';
+            }}
+          />
+        )}
+        <div className="min-w-0">
+          {preview.site_name && (
+            <p className="text-xs font-semibold text-primary truncate">{preview.site_name}</p>
+          )}
+          {preview.title && (
+            <p className="text-sm font-medium line-clamp-2">{preview.title}</p>
+          )}
+          {preview.description && (
+            <p className="text-xs opacity-70 line-clamp-2">{preview.description}</p>
+          )}
+        </div>
+      </a>
+
+      {onRemove && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 rounded-full flex-shrink-0"
+          onClick={onRemove}
+          aria-label="Remove preview"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LinkPreviewCard;
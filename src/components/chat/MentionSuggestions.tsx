@@ -0,0 +1,64 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+export interface MentionCandidate {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+interface MentionSuggestionsProps {
+  users: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (user: MentionCandidate) => void;
+  onHover: (index: number) => void;
+}
+
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  users,
+  activeIndex,
+  onSelect,
+  onHover,
+}) => {
+  if (users.length === 0) return null;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-2">
+      <div className="bg-popover border border-border rounded-xl shadow-lg overflow-hidden" role="listbox">
+        {users.map((candidate, index) => (
+          <button
+            key={candidate.id}
+            type="button"
+            role="option"
+            aria-selected={index === activeIndex}
+            className={cn(
+              'w-full flex items-center gap-3 px-3 py-2 text-left transition-colors',
+              index === activeIndex ? 'bg-accent' : 'hover:bg-accent'
+            )}
+            // Keep focus in the composer so the caret position survives
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onHover(index)}
+            onClick={() => onSelect(candidate)}
+          >
+            <Avatar className="w-7 h-7">
+              <AvatarImage src={candidate.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                {candidate.full_name?.[0] || candidate.username?.[0] || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">
+                {candidate.full_name || candidate.username}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">@{candidate.username}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MentionSuggestions;
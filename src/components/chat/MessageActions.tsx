@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Reply, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Forward, MessagesSquare, Pencil, Pin, PinOff, Plus, Reply, Star, Trash2 } from 'lucide-react';
+import { DEFAULT_QUICK_REACTIONS } from '@/lib/emojis';
 import { cn } from '@/lib/utils';
+import EmojiPicker from './EmojiPicker';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -13,27 +16,46 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
-
 interface MessageActionsProps {
   show: boolean;
   isMine: boolean;
   onReply: () => void;
-  onDelete?: () => void;
+  onOpenThread?: () => void;
+  onForward?: () => void;
+  isStarred: boolean;
+  onToggleStar: () => void;
+  isPinned?: boolean;
+  onTogglePin?: () => void;
+  onEdit?: () => void;
+  onDeleteForMe: () => void;
+  onDeleteForEveryone?: () => void;
   onReact: (emoji: string) => void;
+  // The viewer's own quick-reaction row
+  quickReactions?: string[];
 }
 
 const MessageActions: React.FC<MessageActionsProps> = ({
   show,
   isMine,
   onReply,
-  onDelete,
+  onOpenThread,
+  onForward,
+  isStarred,
+  onToggleStar,
+  isPinned,
+  onTogglePin,
+  onEdit,
+  onDeleteForMe,
+  onDeleteForEveryone,
   onReact,
+  quickReactions = DEFAULT_QUICK_REACTIONS,
 }) => {
   const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const [emojiPickerOpen, setEmojiPickerOpen] = useState(false);
   const [confirmOpen, setConfirmOpen] = useState(false);
 
-  if (!show) return null;
+  // Stay open while the full picker is, even if the pointer left the message on the way there
+  if (!show && !emojiPickerOpen) return null;
 
   return (
     <>
@@ -45,7 +67,7 @@ const MessageActions: React.FC<MessageActionsProps> = ({
       >
         {showReactionPicker && (
           <div className="flex items-center gap-1 bg-card border border-border rounded-full px-2 py-1 shadow-lg mr-1">
-            {REACTION_EMOJIS.map((emoji) => (
+            {quickReactions.map((emoji) => (
               <button
                 key={emoji}
                 onClick={() => {
@@ -57,6 +79,25 @@ const MessageActions: React.FC<MessageActionsProps> = ({
                 {emoji}
               </button>
             ))}
+            <Popover open={emojiPickerOpen} onOpenChange={setEmojiPickerOpen}>
+              <PopoverTrigger asChild>
+                <button
+                  className="h-7 w-7 flex items-center justify-center rounded-full bg-muted hover:bg-accent transition-colors"
+                  aria-label="More reactions"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align={isMine ? 'end' : 'start'}>
+                <EmojiPicker
+                  onSelect={(emoji) => {
+                    onReact(emoji);
+                    setEmojiPickerOpen(false);
+                    setShowReactionPicker(false);
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
           </div>
         )}
 
@@ -79,16 +120,67 @@ const MessageActions: React.FC<MessageActionsProps> = ({
             <Reply className="w-4 h-4" />
           </Button>
 
-          {onDelete && (
+          {onOpenThread && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 rounded-full"
+              onClick={onOpenThread}
+            >
+              <MessagesSquare className="w-4 h-4" />
+            </Button>
+          )}
+
+          {onForward && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 rounded-full"
+              onClick={onForward}
+            >
+              <Forward className="w-4 h-4" />
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 rounded-full"
+            onClick={onToggleStar}
+          >
+            <Star className={cn('w-4 h-4', isStarred && 'fill-current text-yellow-500')} />
+          </Button>
+
+          {onTogglePin && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 rounded-full"
+              onClick={onTogglePin}
+            >
+              {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </Button>
+          )}
+
+          {onEdit && (
             <Button
               variant="ghost"
               size="icon"
-              className="h-7 w-7 rounded-full text-destructive hover:text-destructive"
-              onClick={() => setConfirmOpen(true)}
+              className="h-7 w-7 rounded-full"
+              onClick={onEdit}
             >
-              <Trash2 className="w-4 h-4" />
+              <Pencil className="w-4 h-4" />
             </Button>
           )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 rounded-full text-destructive hover:text-destructive"
+            onClick={() => setConfirmOpen(true)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
         </div>
       </div>
 
@@ -97,20 +189,35 @@ const MessageActions: React.FC<MessageActionsProps> = ({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete message?</AlertDialogTitle>
             <AlertDialogDescription>
-              This message will be deleted for everyone in this chat. This action cannot be undone.
+              {onDeleteForEveryone
+                ? 'Delete this message just for you, or for everyone in this chat. Deleting for everyone cannot be undone.'
+                : 'This message will be removed from your view. Others in this chat will still see it.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              className={cn(
+                !onDeleteForEveryone && 'bg-destructive text-destructive-foreground hover:bg-destructive/90'
+              )}
               onClick={() => {
-                onDelete?.();
+                onDeleteForMe();
                 setConfirmOpen(false);
               }}
             >
-              Delete for everyone
+              Delete for me
             </AlertDialogAction>
+            {onDeleteForEveryone && (
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={() => {
+                  onDeleteForEveryone();
+                  setConfirmOpen(false);
+                }}
+              >
+                Delete for everyone
+              </AlertDialogAction>
+            )}
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -1,23 +1,46 @@
 import React, { useState } from 'react';
+import { AlertCircle, Check, CheckCheck, Clock, Forward, MessagesSquare, Star } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { format } from 'date-fns';
-import { renderMessageContent } from '@/lib/linkify';
+import { renderMessageContent, toPlainText } from '@/lib/richText';
 import MessageMedia from './MessageMedia';
 import MessageReactions from './MessageReactions';
 import MessageActions from './MessageActions';
+import MessageEditHistory from './MessageEditHistory';
+import LinkPreviewCard from './LinkPreviewCard';
+import SeenBy, { SeenByUser } from './SeenBy';
+import PollCard from './PollCard';
 import { ChatTheme } from '@/lib/chatThemes';
+import { PollData } from '@/lib/polls';
+import { VOICE_NOTE_LABEL } from '@/lib/voiceNotes';
+import { isEmojiOnly } from '@/lib/emojis';
+import { ReactionSummary } from '@/lib/reactions';
+import { DELETE_FOR_EVERYONE_WINDOW_MS } from '@/lib/constants';
 import { cn } from '@/lib/utils';
+import { Json } from '@/integrations/supabase/types';
 
 export interface MessageData {
   id: string;
   content: string;
   sender_id: string;
   created_at: string;
-  is_read: boolean;
   media_url?: string | null;
   media_type?: string | null;
+  media_metadata?: Json | null;
   deleted_at?: string | null;
+  edited_at?: string | null;
   reply_to_id?: string | null;
+  // First message of the reply chain this message belongs to
+  thread_root_id?: string | null;
+  is_forwarded?: boolean;
+  mentions?: string[];
+  link_preview_url?: string | null;
+  // Set when the conversation had disappearing messages on at send time
+  expires_at?: string | null;
+  // Server-written timeline notices (rendered as a notice, not a bubble)
+  system_event?: Json | null;
+  // Local delivery state while the message sits in the outbox; unset once the server has it
+  status?: 'pending' | 'failed';
 }
 
 export interface Reaction {
@@ -38,13 +61,44 @@ interface MessageBubbleProps {
     avatar_url: string | null;
   } | null;
   currentTheme: ChatTheme;
-  reactions: Reaction[];
+  reactions: ReactionSummary[];
   replyToMessage?: MessageData | null;
   currentUserId: string;
+  // Usernames behind message.mentions, and the viewer's own username, for mention chips
+  mentionedUsernames?: string[];
+  currentUsername?: string | null;
+  // 1:1 chats: whether the other participant's read cursor has passed this message
+  readStatus?: 'sent' | 'read';
+  // Group chats: participants whose read cursor has passed this message
+  seenBy?: SeenByUser[];
+  // Conversation participants by id, to name who reacted
+  participants?: Record<string, SeenByUser>;
+  // Number of replies in the thread started by this message
+  replyCount?: number;
+  quickReactions?: string[];
+  // Poll messages: the poll with its results, and voter display names per option
+  poll?: PollData;
+  pollVoterNames?: string[][];
+  isStarred: boolean;
+  isPinned?: boolean;
+  isHighlighted?: boolean;
   onReply: (message: MessageData) => void;
-  onDelete: (messageId: string) => void;
+  onOpenThread?: (message: MessageData) => void;
+  // Scroll to (and highlight) the quoted message
+  onJumpToMessage?: (messageId: string) => void;
+  onForward: (message: MessageData) => void;
+  onToggleStar: (message: MessageData) => void;
+  onTogglePin?: (message: MessageData) => void;
+  onEdit: (message: MessageData) => void;
+  onDeleteForMe: (messageId: string) => void;
+  onDeleteForEveryone: (messageId: string) => void;
   onReact: (messageId: string, emoji: string) => void;
   onRemoveReaction: (messageId: string, emoji: string) => void;
+  onShowReactions?: (message: MessageData) => void;
+  onRetry?: (message: MessageData) => void;
+  onDiscard?: (message: MessageData) => void;
+  onVote?: (messageId: string, optionIndexes: number[]) => void;
+  onClosePoll?: (messageId: string) => void;
 }
 
 const MessageBubble: React.FC<MessageBubbleProps> = ({
@@ -56,20 +110,61 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
   reactions,
   replyToMessage,
   currentUserId,
+  mentionedUsernames,
+  currentUsername,
+  readStatus,
+  seenBy,
+  participants,
+  replyCount,
+  quickReactions,
+  poll,
+  pollVoterNames,
+  isStarred,
+  isPinned,
+  isHighlighted,
   onReply,
-  onDelete,
+  onOpenThread,
+  onJumpToMessage,
+  onForward,
+  onToggleStar,
+  onTogglePin,
+  onEdit,
+  onDeleteForMe,
+  onDeleteForEveryone,
   onReact,
   onRemoveReaction,
+  onShowReactions,
+  onRetry,
+  onDiscard,
+  onVote,
+  onClosePoll,
 }) => {
   const [showActions, setShowActions] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const isDeleted = !!message.deleted_at;
+  const isEdited = !!message.edited_at && !isDeleted;
+  // Queued messages don't exist on the server yet, so they get no actions
+  const isQueued = !!message.status;
+  const isPoll = message.media_type === 'poll';
+  // Only plain text messages can be edited (media captions and polls are fixed once sent)
+  const canEdit = isMine && !message.media_url && !isPoll;
+  const canDeleteForEveryone =
+    isMine && Date.now() - new Date(message.created_at).getTime() < DELETE_FOR_EVERYONE_WINDOW_MS;
 
-  const placeholders = new Set(['📷 Photo', '📷 Photos', '🎥 Video', '📎 File']);
+  const placeholders = new Set(['📷 Photo', '📷 Photos', '🎥 Video', '📎 File', VOICE_NOTE_LABEL]);
   const shouldShowText = message.content?.trim().length > 0 && !placeholders.has(message.content);
+  const replyToPreview = replyToMessage ? toPlainText(replyToMessage.content) : '';
+  // Messages of just one to three emojis are shown large
+  const isJumbo = !message.media_url && isEmojiOnly(message.content);
 
   return (
     <div 
-      className={`flex ${isMine ? 'justify-end' : 'justify-start'} animate-slide-up group`}
+      id={`message-${message.id}`}
+      className={cn(
+        'flex animate-slide-up group rounded-2xl transition-colors duration-700',
+        isMine ? 'justify-end' : 'justify-start',
+        isHighlighted && 'bg-primary/15'
+      )}
       onMouseEnter={() => setShowActions(true)}
       onMouseLeave={() => setShowActions(false)}
       onTouchStart={() => setShowActions(true)}
@@ -87,11 +182,20 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
       <div className="relative max-w-[75%]">
         {/* Message Actions (on hover/touch) */}
         <MessageActions
-          show={showActions && !isDeleted}
+          show={showActions && !isDeleted && !isQueued}
           isMine={isMine}
           onReply={() => onReply(message)}
-          onDelete={isMine ? () => onDelete(message.id) : undefined}
+          onOpenThread={onOpenThread ? () => onOpenThread(message) : undefined}
+          onForward={isPoll ? undefined : () => onForward(message)}
+          isStarred={isStarred}
+          onToggleStar={() => onToggleStar(message)}
+          isPinned={isPinned}
+          onTogglePin={onTogglePin ? () => onTogglePin(message) : undefined}
+          onEdit={canEdit ? () => onEdit(message) : undefined}
+          onDeleteForMe={() => onDeleteForMe(message.id)}
+          onDeleteForEveryone={canDeleteForEveryone ? () => onDeleteForEveryone(message.id) : undefined}
           onReact={(emoji) => onReact(message.id, emoji)}
+          quickReactions={quickReactions}
         />
 
         <div
@@ -114,35 +218,86 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             <p className="text-sm">🚫 This message was deleted</p>
           ) : (
             <>
+              {message.is_forwarded && (
+                <p className="flex items-center gap-1 text-xs italic opacity-70 mb-1">
+                  <Forward className="w-3 h-3" />
+                  Forwarded
+                </p>
+              )}
+
               {/* Reply preview */}
               {replyToMessage && (
-                <div className={cn(
-                  'mb-2 p-2 rounded-lg text-xs border-l-2',
-                  isMine 
-                    ? 'bg-white/10 border-white/50' 
-                    : 'bg-black/10 border-primary/50'
-                )}>
+                <button
+                  type="button"
+                  onClick={() => onJumpToMessage?.(replyToMessage.id)}
+                  className={cn(
+                    'block w-full text-left mb-2 p-2 rounded-lg text-xs border-l-2 transition-opacity hover:opacity-80',
+                    isMine 
+                      ? 'bg-white/10 border-white/50' 
+                      : 'bg-black/10 border-primary/50'
+                  )}
+                >
                   <p className="font-semibold opacity-80 mb-0.5">
                     {replyToMessage.sender_id === currentUserId ? 'You' : 'Reply'}
                   </p>
                   <p className="opacity-70 truncate">
                     {replyToMessage.deleted_at 
                       ? '🚫 This message was deleted' 
-                      : replyToMessage.content.slice(0, 50) + (replyToMessage.content.length > 50 ? '...' : '')
+                      : replyToPreview.slice(0, 50) + (replyToPreview.length > 50 ? '...' : '')
                     }
                   </p>
-                </div>
+                </button>
               )}
               
               <MessageMedia message={message} />
-              {shouldShowText && (
-                <p className="text-sm break-words">{renderMessageContent(message.content)}</p>
+              {isPoll ? (
+                poll ? (
+                  <PollCard
+                    poll={poll}
+                    isMine={isMine}
+                    currentTheme={currentTheme}
+                    currentUserId={currentUserId}
+                    voterNames={pollVoterNames || []}
+                    onVote={(optionIndexes) => onVote?.(message.id, optionIndexes)}
+                    onClose={() => onClosePoll?.(message.id)}
+                  />
+                ) : (
+                  <p className="text-sm break-words">{message.content}</p>
+                )
+              ) : shouldShowText && (
+                <div className={cn('break-words space-y-1', isJumbo ? 'text-4xl leading-tight' : 'text-sm')}>{renderMessageContent(message.content, { mentionedUsernames, currentUsername })}</div>
+              )}
+              {message.link_preview_url && (
+                <LinkPreviewCard url={message.link_preview_url} className="mt-2" />
               )}
             </>
           )}
           
           <p className={`text-xs mt-1 ${isMine ? 'opacity-70' : 'opacity-60'}`}>
+            {isStarred && !isDeleted && (
+              <Star className="w-3 h-3 inline fill-current mr-1 -mt-0.5" />
+            )}
+            {isEdited && (
+              <button
+                type="button"
+                onClick={() => setHistoryOpen(true)}
+                className="italic hover:underline mr-1"
+              >
+                edited
+              </button>
+            )}
             {format(new Date(message.created_at), 'h:mm a')}
+            {message.status === 'pending' && (
+              <Clock className="w-3 h-3 inline ml-1 -mt-0.5" />
+            )}
+            {message.status === 'failed' && (
+              <AlertCircle className="w-3.5 h-3.5 inline ml-1 -mt-0.5 text-destructive" />
+            )}
+            {isMine && !isQueued && !isDeleted && (
+              readStatus === 'read'
+                ? <CheckCheck className="w-3.5 h-3.5 inline ml-1 -mt-0.5 text-sky-300" />
+                : <Check className="w-3.5 h-3.5 inline ml-1 -mt-0.5" />
+            )}
           </p>
 
           {/* Reactions display */}
@@ -151,8 +306,10 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
               reactions={reactions}
               currentUserId={currentUserId}
               isMine={isMine}
+              users={participants || {}}
+              onShowAll={onShowReactions ? () => onShowReactions(message) : undefined}
               onToggleReaction={(emoji) => {
-                const hasReaction = reactions.some(r => r.user_id === currentUserId && r.emoji === emoji);
+                const hasReaction = reactions.some(r => r.emoji === emoji && r.reacted_by_me);
                 if (hasReaction) {
                   onRemoveReaction(message.id, emoji);
                 } else {
@@ -162,7 +319,58 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             />
           )}
         </div>
+
+        {replyCount > 0 && !isQueued && (
+          <div className={cn('flex', isMine ? 'justify-end' : 'justify-start')}>
+            <button
+              type="button"
+              onClick={() => onOpenThread?.(message)}
+              className="flex items-center gap-1 mt-1 text-xs font-medium text-primary hover:underline"
+            >
+              <MessagesSquare className="w-3.5 h-3.5" />
+              {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+            </button>
+          </div>
+        )}
+
+        {message.status === 'failed' && (
+          <div className="flex justify-end items-center gap-2 mt-1 text-xs">
+            <button
+              type="button"
+              onClick={() => onRetry?.(message)}
+              className="text-destructive hover:underline"
+            >
+              Not sent. Tap to retry
+            </button>
+            {onDiscard && (
+              <button
+                type="button"
+                onClick={() => onDiscard(message)}
+                className="text-muted-foreground hover:underline"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+
+        {isMine && seenBy && seenBy.length > 0 && !isDeleted && (
+          <div className="flex justify-end">
+            <SeenBy users={seenBy} isMine={isMine} />
+          </div>
+        )}
       </div>
+
+      {isEdited && (
+        <MessageEditHistory
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          messageId={message.id}
+          currentContent={message.content}
+          createdAt={message.created_at}
+          editedAt={message.edited_at || null}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MessageEdit {
+  id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+interface MessageEditHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messageId: string;
+  currentContent: string;
+  createdAt: string;
+  editedAt: string | null;
+}
+
+const MessageEditHistory: React.FC<MessageEditHistoryProps> = ({
+  open,
+  onOpenChange,
+  messageId,
+  currentContent,
+  createdAt,
+  editedAt,
+}) => {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchEdits = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('id, previous_content, edited_at')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching edit history:', error);
+        setEdits([]);
+      } else {
+        setEdits(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchEdits();
+  }, [open, messageId, editedAt]);
+
+  // Each archived row holds the content that was replaced at `edited_at`,
+  // so a version was written at the previous edit (or at creation for the first one).
+  const versions = [
+    ...edits.map((edit, index) => ({
+      key: edit.id,
+      content: edit.previous_content,
+      timestamp: index === 0 ? createdAt : edits[index - 1].edited_at,
+      isCurrent: false,
+    })),
+    {
+      key: 'current',
+      content: currentContent,
+      timestamp: edits.length > 0 ? edits[edits.length - 1].edited_at : editedAt || createdAt,
+      isCurrent: true,
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3 py-2 max-h-96 overflow-y-auto">
+            {versions.map((version) => (
+              <div
+                key={version.key}
+                className={`p-3 rounded-lg ${version.isCurrent ? 'bg-primary/10 border border-primary/30' : 'bg-muted'}`}
+              >
+                <p className="text-sm break-words whitespace-pre-wrap">{version.content}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {version.isCurrent ? 'Current · ' : ''}
+                  {format(new Date(version.timestamp), 'MMM d, h:mm a')}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageEditHistory;
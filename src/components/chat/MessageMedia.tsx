@@ -2,10 +2,14 @@ import React, { useState } from "react";
 import { FileText, Download, FileSpreadsheet, FileImage, FileVideo, File } from "lucide-react";
 import GalleryGrid from "@/components/chat/GalleryGrid";
 import ImageLightbox from "@/components/chat/ImageLightbox";
+import VoicePlayer from "@/components/chat/VoicePlayer";
+import { Json } from "@/integrations/supabase/types";
+import { getVoiceNoteMetadata } from "@/lib/voiceNotes";
 
 export interface MessageMediaPayload {
   media_url?: string | null;
   media_type?: string | null;
+  media_metadata?: Json | null;
   content?: string;
 }
 
@@ -123,6 +127,10 @@ const MessageMedia: React.FC<{ message: MessageMediaPayload }> = ({ message }) =
     );
   }
 
+  if (message.media_type === "audio") {
+    return <VoicePlayer src={message.media_url} metadata={getVoiceNoteMetadata(message.media_metadata)} />;
+  }
+
   // Document / any other file type — show with icon + download
   const fileName = getReadableFileName(message.media_url, message.content);
   const fileType = formatFileSize(fileName);
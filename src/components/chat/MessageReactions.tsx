@@ -1,61 +1,172 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { ReactionSummary } from '@/lib/reactions';
 import { cn } from '@/lib/utils';
-
-interface Reaction {
-  id: string;
-  message_id: string;
-  user_id: string;
-  emoji: string;
-}
+import { SeenByUser } from './SeenBy';
 
 interface MessageReactionsProps {
-  reactions: Reaction[];
+  reactions: ReactionSummary[];
   currentUserId: string;
   isMine: boolean;
+  // Profiles of the conversation's participants, to name the reactors
+  users: Record<string, SeenByUser>;
   onToggleReaction: (emoji: string) => void;
+  // Open the full reactions sheet
+  onShowAll?: () => void;
 }
 
+const LONG_PRESS_MS = 500;
+const HOVER_CLOSE_DELAY_MS = 150;
+
+interface ReactionChipProps {
+  summary: ReactionSummary;
+  currentUserId: string;
+  users: Record<string, SeenByUser>;
+  onToggle: () => void;
+  onShowAll?: () => void;
+}
+
+// One emoji + count; hovering (or long-pressing on touch) shows who reacted
+const ReactionChip: React.FC<ReactionChipProps> = ({
+  summary,
+  currentUserId,
+  users,
+  onToggle,
+  onShowAll,
+}) => {
+  const [open, setOpen] = useState(false);
+  const closeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set by a long press so the touch doesn't also toggle the reaction
+  const longPressedRef = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      if (closeTimerRef.current) clearTimeout(closeTimerRef.current);
+      if (pressTimerRef.current) clearTimeout(pressTimerRef.current);
+    };
+  }, []);
+
+  const { emoji, reaction_count: count, reacted_by_me: hasMyReaction } = summary;
+  // Only the first few reactors come with the summary; the sheet lists everyone
+  const names = [
+    ...(hasMyReaction ? ['You'] : []),
+    ...summary.sample_user_ids
+      .filter(userId => userId !== currentUserId)
+      .map(userId => users[userId]?.full_name || users[userId]?.username || 'Unknown'),
+  ];
+  const others = count - names.length;
+
+  const openNow = () => {
+    if (closeTimerRef.current) clearTimeout(closeTimerRef.current);
+    setOpen(true);
+  };
+
+  const closeSoon = () => {
+    if (closeTimerRef.current) clearTimeout(closeTimerRef.current);
+    closeTimerRef.current = setTimeout(() => setOpen(false), HOVER_CLOSE_DELAY_MS);
+  };
+
+  const cancelLongPress = () => {
+    if (pressTimerRef.current) clearTimeout(pressTimerRef.current);
+    pressTimerRef.current = null;
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverAnchor asChild>
+        <button
+          onClick={() => {
+            if (longPressedRef.current) {
+              longPressedRef.current = false;
+              return;
+            }
+            onToggle();
+          }}
+          onMouseEnter={openNow}
+          onMouseLeave={closeSoon}
+          onTouchStart={() => {
+            longPressedRef.current = false;
+            pressTimerRef.current = setTimeout(() => {
+              longPressedRef.current = true;
+              openNow();
+            }, LONG_PRESS_MS);
+          }}
+          onTouchEnd={cancelLongPress}
+          onTouchMove={cancelLongPress}
+          onContextMenu={(e) => e.preventDefault()}
+          className={cn(
+            'flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors select-none',
+            hasMyReaction
+              ? 'bg-primary/30 border border-primary/50'
+              : 'bg-muted/50 border border-transparent hover:bg-muted'
+          )}
+        >
+          <span>{emoji}</span>
+          <span className="font-medium">{count}</span>
+        </button>
+      </PopoverAnchor>
+      <PopoverContent
+        side="top"
+        className="w-auto max-w-[240px] p-2"
+        onMouseEnter={openNow}
+        onMouseLeave={closeSoon}
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <p className="text-xs text-muted-foreground mb-1">
+          <span className="text-base mr-1">{emoji}</span>
+          {count === 1 ? '1 reaction' : `${count} reactions`}
+        </p>
+        <ul className="text-sm">
+          {names.map((name, i) => (
+            <li key={i} className="truncate">{name}</li>
+          ))}
+          {others > 0 && (
+            <li className="text-muted-foreground">and {others} {others === 1 ? 'other' : 'others'}</li>
+          )}
+        </ul>
+        {onShowAll && (
+          <button
+            type="button"
+            onClick={() => {
+              setOpen(false);
+              onShowAll();
+            }}
+            className="mt-1 text-xs font-medium text-primary hover:underline"
+          >
+            See all reactions
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
 const MessageReactions: React.FC<MessageReactionsProps> = ({
   reactions,
   currentUserId,
   isMine,
+  users,
   onToggleReaction,
+  onShowAll,
 }) => {
-  // Group reactions by emoji
-  const groupedReactions = reactions.reduce((acc, reaction) => {
-    if (!acc[reaction.emoji]) {
-      acc[reaction.emoji] = [];
-    }
-    acc[reaction.emoji].push(reaction);
-    return acc;
-  }, {} as Record<string, Reaction[]>);
-
   return (
-    <div 
+    <div
       className={cn(
         'flex flex-wrap gap-1 mt-2',
         isMine ? 'justify-end' : 'justify-start'
       )}
     >
-      {Object.entries(groupedReactions).map(([emoji, reactionList]) => {
-        const hasMyReaction = reactionList.some(r => r.user_id === currentUserId);
-        
-        return (
-          <button
-            key={emoji}
-            onClick={() => onToggleReaction(emoji)}
-            className={cn(
-              'flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors',
-              hasMyReaction
-                ? 'bg-primary/30 border border-primary/50'
-                : 'bg-muted/50 border border-transparent hover:bg-muted'
-            )}
-          >
-            <span>{emoji}</span>
-            <span className="font-medium">{reactionList.length}</span>
-          </button>
-        );
-      })}
+      {reactions.map((summary) => (
+        <ReactionChip
+          key={summary.emoji}
+          summary={summary}
+          currentUserId={currentUserId}
+          users={users}
+          onToggle={() => onToggleReaction(summary.emoji)}
+          onShowAll={onShowAll}
+        />
+      ))}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronDown, ChevronUp, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import SearchHeadline from './SearchHeadline';
+import { SeenByUser } from './SeenBy';
+
+interface SearchResult {
+  id: string;
+  sender_id: string;
+  created_at: string;
+  headline: string;
+}
+
+interface MessageSearchBarProps {
+  conversationId: string;
+  currentUserId: string;
+  participants: Record<string, SeenByUser>;
+  onJump: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const MessageSearchBar: React.FC<MessageSearchBarProps> = ({
+  conversationId,
+  currentUserId,
+  participants,
+  onJump,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  // Results are newest first, so "up" moves to a higher index
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [showResults, setShowResults] = useState(true);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    // A slower response for an older query must not overwrite the results for the current one
+    let cancelled = false;
+    setSearching(true);
+    const search = async () => {
+      const { data, error } = await supabase
+        .rpc('search_conversation_messages', { _conversation_id: conversationId, _query: query.trim() });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Message search error:', error);
+        setResults([]);
+      } else {
+        setResults(data || []);
+        setActiveIndex(0);
+        setShowResults(true);
+      }
+      setSearching(false);
+    };
+
+    const debounce = setTimeout(search, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(debounce);
+    };
+  }, [query, conversationId]);
+
+  const goTo = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    setActiveIndex(index);
+    setShowResults(false);
+    onJump(result.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      // The first Enter jumps to the newest hit, later ones walk back through history
+      if (showResults) {
+        goTo(activeIndex);
+      } else {
+        goTo(e.shiftKey ? Math.max(activeIndex - 1, 0) : Math.min(activeIndex + 1, results.length - 1));
+      }
+    }
+  };
+
+  const senderName = (senderId: string) => {
+    if (senderId === currentUserId) return 'You';
+    const sender = participants[senderId];
+    return sender?.full_name || sender?.username || 'Unknown';
+  };
+
+  return (
+    <div className="relative flex-1 flex items-center gap-2">
+      <Input
+        autoFocus
+        placeholder="Search in conversation..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setShowResults(true)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 rounded-full bg-muted border-0 focus-visible:ring-primary"
+      />
+
+      <span className="text-xs text-muted-foreground whitespace-nowrap w-14 text-center">
+        {searching ? (
+          <Loader2 className="w-4 h-4 animate-spin inline" />
+        ) : query.trim() ? (
+          results.length > 0 ? `${activeIndex + 1} of ${results.length}` : 'No results'
+        ) : null}
+      </span>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full hover:bg-accent"
+        disabled={activeIndex >= results.length - 1}
+        onClick={() => goTo(activeIndex + 1)}
+        aria-label="Older match"
+      >
+        <ChevronUp className="w-5 h-5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full hover:bg-accent"
+        disabled={activeIndex <= 0}
+        onClick={() => goTo(activeIndex - 1)}
+        aria-label="Newer match"
+      >
+        <ChevronDown className="w-5 h-5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="rounded-full hover:bg-accent"
+        onClick={onClose}
+        aria-label="Close search"
+      >
+        <X className="w-5 h-5" />
+      </Button>
+
+      {showResults && results.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-2 max-h-80 overflow-y-auto bg-popover border border-border rounded-xl shadow-lg">
+          {results.map((result, index) => (
+            <button
+              key={result.id}
+              type="button"
+              onClick={() => goTo(index)}
+              className={cn(
+                'w-full px-3 py-2 text-left transition-colors border-b border-border last:border-0',
+                index === activeIndex ? 'bg-accent' : 'hover:bg-accent'
+              )}
+            >
+              <p className="flex justify-between gap-2 text-xs text-muted-foreground mb-0.5">
+                <span className="font-semibold truncate">{senderName(result.sender_id)}</span>
+                <span className="flex-shrink-0">{format(new Date(result.created_at), 'MMM d, yyyy')}</span>
+              </p>
+              <SearchHeadline headline={result.headline} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageSearchBar;
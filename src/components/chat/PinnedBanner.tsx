@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Pin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { toPlainText } from '@/lib/richText';
+
+export interface PinnedMessage {
+  id: string;
+  message_id: string;
+  created_at: string;
+  messages: {
+    id: string;
+    content: string;
+    sender_id: string;
+    media_type: string | null;
+  } | null;
+}
+
+interface PinnedBannerProps {
+  pins: PinnedMessage[];
+  canUnpin: boolean;
+  onSelect: (messageId: string) => void;
+  onUnpin: (pin: PinnedMessage) => void;
+}
+
+const PinnedBanner: React.FC<PinnedBannerProps> = ({
+  pins,
+  canUnpin,
+  onSelect,
+  onUnpin,
+}) => {
+  // Newest pin is shown first; each click jumps to the shown pin and moves on to the next one
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (index >= pins.length) setIndex(0);
+  }, [pins.length, index]);
+
+  if (pins.length === 0) return null;
+
+  const current = pins[Math.min(index, pins.length - 1)];
+  const preview = current.messages?.content ? toPlainText(current.messages.content) : 'Pinned message';
+
+  const handleClick = () => {
+    onSelect(current.message_id);
+    setIndex((prev) => (prev + 1) % pins.length);
+  };
+
+  return (
+    <div className="sticky top-16 z-40 bg-card/90 backdrop-blur-lg border-b border-border">
+      <div className="max-w-2xl mx-auto px-4 py-2 flex items-center gap-3">
+        {/* One bar per pin, the active one highlighted */}
+        <div className="flex flex-col gap-0.5 self-stretch py-0.5">
+          {pins.slice(0, 4).map((pin, i) => (
+            <span
+              key={pin.id}
+              className={cn(
+                'w-0.5 flex-1 rounded-full',
+                i === index % 4 ? 'bg-primary' : 'bg-primary/30'
+              )}
+            />
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={handleClick}
+          className="flex-1 min-w-0 text-left"
+        >
+          <p className="text-xs font-semibold text-primary flex items-center gap-1">
+            <Pin className="w-3 h-3" />
+            {pins.length > 1 ? `Pinned message #${index + 1} of ${pins.length}` : 'Pinned message'}
+          </p>
+          <p className="text-sm text-muted-foreground truncate">
+            {preview.slice(0, 100)}
+          </p>
+        </button>
+
+        {canUnpin && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full flex-shrink-0"
+            onClick={() => onUnpin(current)}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PinnedBanner;
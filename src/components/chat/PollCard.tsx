@@ -0,0 +1,152 @@
+import React from 'react';
+import { BarChart3, Check, Lock } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChatTheme } from '@/lib/chatThemes';
+import { PollData } from '@/lib/polls';
+import { cn } from '@/lib/utils';
+
+interface PollCardProps {
+  poll: PollData;
+  isMine: boolean;
+  currentTheme: ChatTheme;
+  currentUserId: string;
+  // Display names of the voters per option (public polls)
+  voterNames: string[][];
+  onVote: (optionIndexes: number[]) => void;
+  onClose: () => void;
+}
+
+const PollCard: React.FC<PollCardProps> = ({
+  poll,
+  isMine,
+  currentTheme,
+  currentUserId,
+  voterNames,
+  onVote,
+  onClose,
+}) => {
+  const isClosed = !!poll.closed_at;
+  const totalVotes = poll.counts.reduce((sum, count) => sum + count, 0);
+  const hasVoted = poll.myVotes.length > 0;
+  // Results show once you've voted, and for everyone after the poll closes
+  const showResults = hasVoted || isClosed;
+  const maxCount = Math.max(...poll.counts);
+
+  const toggleOption = (index: number) => {
+    if (isClosed) return;
+
+    if (poll.allows_multiple) {
+      onVote(
+        poll.myVotes.includes(index)
+          ? poll.myVotes.filter((i) => i !== index)
+          : [...poll.myVotes, index]
+      );
+    } else {
+      onVote(poll.myVotes.includes(index) ? [] : [index]);
+    }
+  };
+
+  return (
+    <div className="min-w-[240px] space-y-2">
+      <div>
+        <p className="flex items-center gap-1.5 text-xs opacity-70">
+          <BarChart3 className="w-3.5 h-3.5" />
+          {isClosed ? 'Final results' : poll.allows_multiple ? 'Poll · choose one or more' : 'Poll · choose one'}
+          {poll.is_anonymous && ' · anonymous'}
+        </p>
+        <p className="font-semibold break-words">{poll.question}</p>
+      </div>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option, index) => {
+          const count = poll.counts[index] ?? 0;
+          const percent = totalVotes > 0 ? Math.round((count / totalVotes) * 100) : 0;
+          const isChosen = poll.myVotes.includes(index);
+          const isLeading = isClosed && count > 0 && count === maxCount;
+
+          const row = (
+            <button
+              type="button"
+              onClick={() => toggleOption(index)}
+              disabled={isClosed}
+              className={cn(
+                'relative w-full overflow-hidden rounded-lg border text-left text-sm transition-colors disabled:cursor-default',
+                isMine ? 'border-white/30' : 'border-foreground/20',
+                !isClosed && 'hover:bg-black/5'
+              )}
+            >
+              {showResults && (
+                <div
+                  className={cn(
+                    'absolute inset-y-0 left-0 transition-all duration-500',
+                    isMine ? currentTheme.sentPollBar : currentTheme.receivedPollBar
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+              )}
+              <div className="relative flex items-center gap-2 px-3 py-2">
+                <span
+                  className={cn(
+                    'flex h-4 w-4 flex-shrink-0 items-center justify-center border',
+                    poll.allows_multiple ? 'rounded' : 'rounded-full',
+                    isChosen ? 'bg-current' : 'opacity-60'
+                  )}
+                >
+                  {isChosen && <Check className={cn('w-3 h-3', isMine ? 'text-black' : 'text-background')} />}
+                </span>
+                <span className={cn('flex-1 break-words', isLeading && 'font-semibold')}>{option}</span>
+                {showResults && <span className="text-xs opacity-80">{percent}%</span>}
+              </div>
+            </button>
+          );
+
+          // Public polls: tap the vote count to see who voted
+          if (!showResults || poll.is_anonymous || count === 0) {
+            return <React.Fragment key={index}>{row}</React.Fragment>;
+          }
+
+          return (
+            <div key={index} className="space-y-0.5">
+              {row}
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button type="button" className="text-xs opacity-70 hover:underline">
+                    {count === 1 ? '1 vote' : `${count} votes`}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-56 p-2" align="start">
+                  <p className="text-xs font-semibold text-muted-foreground px-1 pb-1">{option}</p>
+                  <ul className="max-h-48 overflow-y-auto text-sm">
+                    {(voterNames[index] || []).map((name, i) => (
+                      <li key={i} className="px-1 py-0.5 truncate">
+                        {poll.voters[index]?.[i] === currentUserId ? 'You' : name}
+                      </li>
+                    ))}
+                  </ul>
+                </PopoverContent>
+              </Popover>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs opacity-70">
+        <span>{totalVotes === 1 ? '1 vote' : `${totalVotes} votes`}</span>
+        {isClosed ? (
+          <span className="flex items-center gap-1">
+            <Lock className="w-3 h-3" />
+            Closed
+          </span>
+        ) : (
+          poll.created_by === currentUserId && (
+            <button type="button" onClick={onClose} className="font-medium hover:underline">
+              Close poll
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PollCard;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Reaction } from './MessageBubble';
+import { SeenByUser } from './SeenBy';
+
+interface ReactionsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The message's current reactions (kept live by the chat's realtime subscription)
+  reactions: Reaction[];
+  users: Record<string, SeenByUser>;
+  currentUserId: string;
+  onRemoveReaction: (emoji: string) => void;
+}
+
+const ReactionsSheet: React.FC<ReactionsSheetProps> = ({
+  open,
+  onOpenChange,
+  reactions,
+  users,
+  currentUserId,
+  onRemoveReaction,
+}) => {
+  const [tab, setTab] = useState('all');
+
+  const emojis = [...new Set(reactions.map(r => r.emoji))];
+
+  // Back to "All" when opened, or when the selected emoji's last reaction goes away
+  useEffect(() => {
+    if (open) setTab('all');
+  }, [open]);
+
+  const activeTab = emojis.includes(tab) ? tab : 'all';
+
+  const renderList = (list: Reaction[]) => (
+    <div className="space-y-1">
+      {list.map((reaction) => {
+        const reactor = users[reaction.user_id];
+        const isMe = reaction.user_id === currentUserId;
+
+        return (
+          <div key={reaction.id} className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-muted">
+            <Avatar className="w-9 h-9">
+              <AvatarImage src={reactor?.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                {reactor?.full_name?.[0] || reactor?.username?.[0] || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">
+                {isMe ? 'You' : reactor?.full_name || reactor?.username || 'Unknown'}
+              </p>
+              {isMe ? (
+                <button
+                  type="button"
+                  onClick={() => onRemoveReaction(reaction.emoji)}
+                  className="text-xs text-muted-foreground hover:underline"
+                >
+                  Tap to remove
+                </button>
+              ) : (
+                reactor?.username && <p className="text-xs text-muted-foreground truncate">@{reactor.username}</p>
+              )}
+            </div>
+            <span className="text-xl">{reaction.emoji}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[70vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Reactions</SheetTitle>
+          <SheetDescription>
+            {reactions.length === 1 ? '1 reaction' : `${reactions.length} reactions`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {reactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No reactions yet</p>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setTab} className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="justify-start overflow-x-auto">
+              <TabsTrigger value="all">All {reactions.length}</TabsTrigger>
+              {emojis.map((emoji) => (
+                <TabsTrigger key={emoji} value={emoji} className="gap-1">
+                  <span className="text-base">{emoji}</span>
+                  {reactions.filter(r => r.emoji === emoji).length}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            <div className="flex-1 overflow-y-auto mt-2">
+              <TabsContent value="all" className="mt-0">
+                {renderList(reactions)}
+              </TabsContent>
+              {emojis.map((emoji) => (
+                <TabsContent key={emoji} value={emoji} className="mt-0">
+                  {renderList(reactions.filter(r => r.emoji === emoji))}
+                </TabsContent>
+              ))}
+            </div>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReactionsSheet;
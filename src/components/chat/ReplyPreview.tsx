@@ -1,6 +1,7 @@
 import React from 'react';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { toPlainText } from '@/lib/richText';
 
 interface ReplyPreviewProps {
   replyToMessage: {
@@ -9,25 +10,30 @@ interface ReplyPreviewProps {
     sender_id: string;
   };
   currentUserId: string;
+  mode?: 'reply' | 'edit';
   onClear: () => void;
 }
 
 const ReplyPreview: React.FC<ReplyPreviewProps> = ({
   replyToMessage,
   currentUserId,
+  mode = 'reply',
   onClear,
 }) => {
   const isOwnMessage = replyToMessage.sender_id === currentUserId;
+  const preview = toPlainText(replyToMessage.content);
 
   return (
     <div className="max-w-2xl mx-auto mb-3">
       <div className="flex items-center gap-2 p-3 bg-muted rounded-lg border-l-4 border-primary">
         <div className="flex-1 min-w-0">
           <p className="text-xs font-semibold text-primary mb-0.5">
-            Replying to {isOwnMessage ? 'yourself' : 'message'}
+            {mode === 'edit'
+              ? 'Editing message'
+              : `Replying to ${isOwnMessage ? 'yourself' : 'message'}`}
           </p>
           <p className="text-sm text-muted-foreground truncate">
-            {replyToMessage.content.slice(0, 100)}{replyToMessage.content.length > 100 ? '...' : ''}
+            {preview.slice(0, 100)}{preview.length > 100 ? '...' : ''}
           </p>
         </div>
         <Button
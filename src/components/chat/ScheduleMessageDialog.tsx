@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { addHours, format, startOfDay, startOfHour } from 'date-fns';
+
+interface ScheduleMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialContent: string;
+  // ISO timestamp; defaults to the start of the next hour
+  initialSendAt?: string | null;
+  confirmLabel: string;
+  onConfirm: (content: string, sendAt: Date) => Promise<void>;
+}
+
+const ScheduleMessageDialog: React.FC<ScheduleMessageDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  initialContent,
+  initialSendAt,
+  confirmLabel,
+  onConfirm,
+}) => {
+  const [content, setContent] = useState('');
+  const [date, setDate] = useState<Date | undefined>(undefined);
+  const [time, setTime] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const sendAt = initialSendAt ? new Date(initialSendAt) : startOfHour(addHours(new Date(), 1));
+    setContent(initialContent);
+    setDate(sendAt);
+    setTime(format(sendAt, 'HH:mm'));
+  }, [open, initialContent, initialSendAt]);
+
+  const sendAt = (() => {
+    if (!date || !/^\d{2}:\d{2}$/.test(time)) return null;
+    const [hours, minutes] = time.split(':').map(Number);
+    const combined = new Date(date);
+    combined.setHours(hours, minutes, 0, 0);
+    return combined;
+  })();
+
+  const isInFuture = !!sendAt && sendAt.getTime() > Date.now();
+  const trimmed = content.trim();
+
+  const handleConfirm = async () => {
+    if (!sendAt || !isInFuture || !trimmed) return;
+
+    setSaving(true);
+    try {
+      await onConfirm(trimmed, sendAt);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            The message is sent at this time even if you're offline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Type a message..."
+          className="min-h-20 max-h-40 resize-none"
+        />
+
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={setDate}
+          disabled={(day) => day < startOfDay(new Date())}
+          className="mx-auto rounded-md border"
+        />
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="schedule-time" className="text-sm text-muted-foreground">
+            Time
+          </label>
+          <Input
+            id="schedule-time"
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="flex-1"
+          />
+        </div>
+
+        {sendAt && !isInFuture && (
+          <p className="text-sm text-destructive">Pick a time in the future</p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleConfirm}
+            disabled={!trimmed || !isInFuture || saving}
+            className="w-full"
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              sendAt ? `${confirmLabel} · ${format(sendAt, 'MMM d, h:mm a')}` : confirmLabel
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleMessageDialog;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { CalendarClock, Pencil, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+import { toPlainText } from '@/lib/richText';
+import ScheduleMessageDialog from './ScheduleMessageDialog';
+
+type ScheduledMessage = Tables<'scheduled_messages'>;
+
+interface ScheduledMessagesListProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: ScheduledMessage[];
+  onUpdate: (message: ScheduledMessage, content: string, sendAt: Date) => Promise<void>;
+  onCancel: (message: ScheduledMessage) => void;
+}
+
+const ScheduledMessagesList: React.FC<ScheduledMessagesListProps> = ({
+  open,
+  onOpenChange,
+  messages,
+  onUpdate,
+  onCancel,
+}) => {
+  const [editing, setEditing] = useState<ScheduledMessage | null>(null);
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Scheduled messages</SheetTitle>
+            <SheetDescription>
+              Only you can see these until they're sent.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {messages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Nothing scheduled</p>
+            ) : (
+              messages.map((message) => (
+                <div key={message.id} className="flex items-start gap-2 p-3 rounded-xl bg-muted">
+                  <div className="flex-1 min-w-0">
+                    <p className="flex items-center gap-1 text-xs font-semibold text-primary mb-1">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {format(new Date(message.send_at), 'EEE, MMM d · h:mm a')}
+                    </p>
+                    <p className="text-sm text-foreground line-clamp-3 break-words">
+                      {toPlainText(message.content)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full"
+                    onClick={() => setEditing(message)}
+                    aria-label="Edit scheduled message"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full text-destructive hover:text-destructive"
+                    onClick={() => onCancel(message)}
+                    aria-label="Cancel scheduled message"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <ScheduleMessageDialog
+        open={!!editing}
+        onOpenChange={(isOpen) => !isOpen && setEditing(null)}
+        title="Edit scheduled message"
+        initialContent={editing?.content ?? ''}
+        initialSendAt={editing?.send_at ?? null}
+        confirmLabel="Save"
+        onConfirm={async (content, sendAt) => {
+          if (!editing) return;
+          await onUpdate(editing, content, sendAt);
+          setEditing(null);
+        }}
+      />
+    </>
+  );
+};
+
+export default ScheduledMessagesList;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+// Search RPCs wrap matched words in these private-use characters (see search_conversation_messages)
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+
+interface SearchHeadlineProps {
+  headline: string;
+  className?: string;
+}
+
+const SearchHeadline: React.FC<SearchHeadlineProps> = ({ headline, className }) => {
+  const parts = headline.split(MATCH_START);
+
+  return (
+    <p className={cn('text-sm text-foreground line-clamp-2 break-words', className)}>
+      {parts[0]}
+      {parts.slice(1).map((part, i) => {
+        const [match, rest = ''] = part.split(MATCH_END);
+        return (
+          <React.Fragment key={i}>
+            <mark className="bg-primary/20 text-foreground rounded px-0.5">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
+
+export default SearchHeadline;
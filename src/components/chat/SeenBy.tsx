@@ -0,0 +1,70 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+export interface SeenByUser {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+interface SeenByProps {
+  users: SeenByUser[];
+  isMine: boolean;
+}
+
+const MAX_AVATARS = 3;
+
+const SeenBy: React.FC<SeenByProps> = ({ users, isMine }) => {
+  if (users.length === 0) return null;
+
+  const visible = users.slice(0, MAX_AVATARS);
+  const overflow = users.length - visible.length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center gap-1 mt-1 text-xs text-muted-foreground hover:text-foreground transition-colors',
+            isMine && 'flex-row-reverse'
+          )}
+          aria-label="Seen by"
+        >
+          <span className="flex -space-x-1.5">
+            {visible.map((u) => (
+              <Avatar key={u.id} className="w-4 h-4 border border-background">
+                <AvatarImage src={u.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary text-[8px]">
+                  {u.full_name?.[0] || u.username?.[0] || '?'}
+                </AvatarFallback>
+              </Avatar>
+            ))}
+          </span>
+          {overflow > 0 && <span>+{overflow}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-2" align={isMine ? 'end' : 'start'}>
+        <p className="text-xs font-semibold text-muted-foreground px-2 pb-1">Seen by</p>
+        <div className="max-h-60 overflow-y-auto">
+          {users.map((u) => (
+            <div key={u.id} className="flex items-center gap-2 px-2 py-1.5">
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={u.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                  {u.full_name?.[0] || u.username?.[0] || '?'}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-sm truncate">{u.full_name || u.username || 'Unknown'}</span>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SeenBy;
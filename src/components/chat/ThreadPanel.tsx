@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, Clock, Loader2, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import { renderMessageContent } from '@/lib/richText';
+import { notExpiredFilter, stripHiddenMarker } from '@/lib/messages';
+import { cn } from '@/lib/utils';
+import MessageMedia from './MessageMedia';
+import { MessageData } from './MessageBubble';
+import { SeenByUser } from './SeenBy';
+
+interface ThreadPanelProps {
+  rootMessageId: string | null;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  participants: Record<string, SeenByUser>;
+  // Optimistic replies from the chat's outbox, shown until the server rows arrive
+  pendingReplies: MessageData[];
+  onSend: (content: string) => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  rootMessageId,
+  onOpenChange,
+  currentUserId,
+  participants,
+  pendingReplies,
+  onSend,
+}) => {
+  const [rootMessage, setRootMessage] = useState<MessageData | null>(null);
+  const [replies, setReplies] = useState<MessageData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!rootMessageId) return;
+
+    const fetchThread = async () => {
+      setLoading(true);
+
+      const [{ data: root }, { data: threadReplies, error }] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('id', rootMessageId)
+          .maybeSingle(),
+        supabase
+          .from('messages')
+          .select('*, hidden_messages(id)')
+          .eq('thread_root_id', rootMessageId)
+          .is('hidden_messages', null)
+          .or(notExpiredFilter())
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (error) {
+        console.error('Error fetching thread:', error);
+      }
+      setRootMessage(root);
+      setReplies(stripHiddenMarker(threadReplies || []));
+      setLoading(false);
+    };
+
+    setDraft('');
+    fetchThread();
+
+    // Replies and edits/deletions inside this thread
+    const threadChannel = supabase
+      .channel(`thread-${rootMessageId}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_root_id=eq.${rootMessageId}`,
+        },
+        (payload) => {
+          const reply = payload.new as MessageData;
+          setReplies((prev) => (prev.some((m) => m.id === reply.id) ? prev : [...prev, reply]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_root_id=eq.${rootMessageId}`,
+        },
+        (payload) => {
+          const updated = payload.new as MessageData;
+          setReplies((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(threadChannel);
+    };
+  }, [rootMessageId, currentUserId]);
+
+  const delivered = new Set(replies.map((m) => m.id));
+  const timeline = [...replies, ...pendingReplies.filter((m) => !delivered.has(m.id))];
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [timeline.length]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content) return;
+    onSend(content);
+    setDraft('');
+  };
+
+  const renderMessage = (message: MessageData, isRoot = false) => {
+    const sender = participants[message.sender_id];
+    const isMine = message.sender_id === currentUserId;
+    const mentionedUsernames = (message.mentions || [])
+      .map((mentionedId) => participants[mentionedId]?.username)
+      .filter((username): username is string => !!username);
+
+    return (
+      <div key={message.id} className={cn('flex gap-3 px-1', isRoot && 'pb-4 border-b border-border')}>
+        <Avatar className="w-8 h-8 flex-shrink-0">
+          <AvatarImage src={sender?.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+            {sender?.full_name?.[0] || sender?.username?.[0] || '?'}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm">
+            <span className="font-semibold text-foreground">
+              {isMine ? 'You' : (sender?.full_name || sender?.username || 'Unknown')}
+            </span>
+            <span className="text-xs text-muted-foreground ml-2">
+              {format(new Date(message.created_at), 'MMM d, h:mm a')}
+            </span>
+            {message.status === 'pending' && <Clock className="w-3 h-3 inline ml-1 text-muted-foreground" />}
+            {message.status === 'failed' && <AlertCircle className="w-3 h-3 inline ml-1 text-destructive" />}
+          </p>
+          {message.deleted_at ? (
+            <p className="text-sm italic text-muted-foreground">🚫 This message was deleted</p>
+          ) : (
+            <>
+              <MessageMedia message={message} />
+              <div className="text-sm break-words text-foreground space-y-1">
+                {renderMessageContent(message.content, {
+                  mentionedUsernames,
+                  currentUsername: participants[currentUserId]?.username,
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!rootMessageId} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col p-0 gap-0">
+        <SheetHeader className="px-4 py-3 border-b border-border">
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {timeline.length === 1 ? '1 reply' : `${timeline.length} replies`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-3 py-4 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              {rootMessage ? (
+                renderMessage(rootMessage, true)
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">Original message is no longer available</p>
+              )}
+              {timeline.map((message) => renderMessage(message))}
+            </>
+          )}
+          <div ref={endRef} />
+        </div>
+
+        <form onSubmit={handleSend} className="p-3 border-t border-border flex items-end gap-2">
+          <Textarea
+            rows={1}
+            placeholder="Reply in thread..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            className="flex-1 min-h-10 max-h-32 resize-none rounded-2xl bg-muted border-0 focus-visible:ring-primary"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!draft.trim()}
+            className="h-10 w-10 rounded-full gradient-primary hover:opacity-90 transition-opacity"
+          >
+            <Send className="w-4 h-4 text-primary-foreground" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { VOICE_NOTE_WAVEFORM_BARS, VoiceNoteMetadata, formatDuration } from '@/lib/voiceNotes';
+import { cn } from '@/lib/utils';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Flat bars for audio recorded without a waveform
+const PLACEHOLDER_WAVEFORM = new Array(VOICE_NOTE_WAVEFORM_BARS).fill(0.3);
+
+interface VoicePlayerProps {
+  src: string;
+  metadata: VoiceNoteMetadata | null;
+}
+
+const VoicePlayer: React.FC<VoicePlayerProps> = ({ src, metadata }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  // MediaRecorder WebM files often report an infinite duration, so prefer the recorded one
+  const [loadedDuration, setLoadedDuration] = useState(0);
+  const [rateIndex, setRateIndex] = useState(0);
+
+  const duration = metadata?.duration || loadedDuration;
+  const waveform = metadata?.waveform.length ? metadata.waveform : PLACEHOLDER_WAVEFORM;
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Error playing voice message:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || duration <= 0) return;
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const cycleRate = () => {
+    const next = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(next);
+    if (audioRef.current) audioRef.current.playbackRate = PLAYBACK_RATES[next];
+  };
+
+  return (
+    <div className="flex items-center gap-3 min-w-[220px] max-w-[300px] mb-2">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => {
+          setPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => {
+          const audio = e.currentTarget;
+          if (Number.isFinite(audio.duration)) setLoadedDuration(audio.duration);
+          audio.playbackRate = PLAYBACK_RATES[rateIndex];
+        }}
+      />
+
+      <button
+        type="button"
+        onClick={togglePlay}
+        className="w-10 h-10 flex-shrink-0 flex items-center justify-center rounded-full bg-background/20 hover:bg-background/30 transition-colors"
+        aria-label={playing ? 'Pause voice message' : 'Play voice message'}
+      >
+        {playing ? <Pause className="w-5 h-5 fill-current" /> : <Play className="w-5 h-5 fill-current ml-0.5" />}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          tabIndex={0}
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            seekTo((e.clientX - rect.left) / rect.width);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowRight') seekTo(Math.min(1, progress + 0.05));
+            if (e.key === 'ArrowLeft') seekTo(Math.max(0, progress - 0.05));
+          }}
+          className="flex items-center gap-[2px] h-8 cursor-pointer"
+        >
+          {waveform.map((level, i) => (
+            <span
+              key={i}
+              className={cn(
+                'flex-1 rounded-full bg-current transition-opacity',
+                i / waveform.length < progress ? 'opacity-100' : 'opacity-40'
+              )}
+              style={{ height: `${Math.max(12, level * 100)}%` }}
+            />
+          ))}
+        </div>
+        <p className="text-xs opacity-70 tabular-nums">
+          {formatDuration(playing || currentTime > 0 ? currentTime : duration)}
+        </p>
+      </div>
+
+      <button
+        type="button"
+        onClick={cycleRate}
+        className="flex-shrink-0 px-2 py-0.5 rounded-full bg-background/20 hover:bg-background/30 text-xs font-semibold tabular-nums transition-colors"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_RATES[rateIndex]}×
+      </button>
+    </div>
+  );
+};
+
+export default VoicePlayer;
@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, Lock, Mic, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { VOICE_NOTE_MAX_SECONDS } from '@/lib/constants';
+import {
+  VoiceNoteMetadata,
+  downsampleWaveform,
+  formatDuration,
+  getRecordingMimeType,
+} from '@/lib/voiceNotes';
+import { cn } from '@/lib/utils';
+
+const SAMPLE_INTERVAL_MS = 100;
+const MIN_DURATION_SECONDS = 1;
+// How far (px) to slide left to cancel, or up to lock the recording
+const CANCEL_DISTANCE = 100;
+const LOCK_DISTANCE = 70;
+
+type RecorderState = 'idle' | 'recording' | 'locked';
+
+interface VoiceRecorderProps {
+  disabled?: boolean;
+  onRecorded: (file: File, metadata: VoiceNoteMetadata) => void;
+}
+
+/**
+ * Hold-to-record button for the composer. Releasing sends, sliding left cancels and sliding up
+ * locks the recording so it continues hands-free until sent or discarded.
+ * Renders an overlay over the rest of the composer row, so its parent must be positioned.
+ */
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ disabled, onRecorded }) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [slideOffset, setSlideOffset] = useState(0);
+  const stateRef = useRef<RecorderState>('idle');
+  // False once the button is released, including while the microphone prompt is still open
+  const pressingRef = useRef(false);
+  const sendOnStopRef = useRef(false);
+  const pointerStartRef = useRef<{ x: number; y: number } | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const samplesRef = useRef<number[]>([]);
+  const startedAtRef = useRef(0);
+
+  const updateState = (next: RecorderState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const releaseDevices = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  };
+
+  // Stop the microphone if the composer unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      sendOnStopRef.current = false;
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      releaseDevices();
+    };
+  }, []);
+
+  const stopRecording = (send: boolean) => {
+    sendOnStopRef.current = send;
+    setSlideOffset(0);
+    updateState('idle');
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    } else {
+      releaseDevices();
+    }
+  };
+
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error('Error accessing microphone:', error);
+      toast.error('Allow microphone access to record voice messages');
+      updateState('idle');
+      return;
+    }
+
+    // Released before the permission prompt resolved
+    if (!pressingRef.current && stateRef.current !== 'locked') {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const mimeType = getRecordingMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: 32000 });
+    const chunks: Blob[] = [];
+
+    // Sample the input level while recording to draw the waveform without decoding the file later
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const levels = new Uint8Array(analyser.fftSize);
+
+    streamRef.current = stream;
+    audioContextRef.current = audioContext;
+    recorderRef.current = recorder;
+    samplesRef.current = [];
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    recorder.onstop = () => {
+      const duration = (Date.now() - startedAtRef.current) / 1000;
+      releaseDevices();
+      recorderRef.current = null;
+
+      if (!sendOnStopRef.current) return;
+      if (duration < MIN_DURATION_SECONDS) {
+        toast('Hold to record, release to send');
+        return;
+      }
+
+      const type = recorder.mimeType || mimeType || 'audio/webm';
+      const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+      const file = new File(chunks, `voice-message.${extension}`, { type: type.split(';')[0] });
+
+      onRecorded(file, {
+        duration: Math.round(duration * 10) / 10,
+        waveform: downsampleWaveform(samplesRef.current),
+      });
+    };
+
+    timerRef.current = setInterval(() => {
+      analyser.getByteTimeDomainData(levels);
+      let sumOfSquares = 0;
+      for (const level of levels) {
+        const centered = (level - 128) / 128;
+        sumOfSquares += centered * centered;
+      }
+      samplesRef.current.push(Math.sqrt(sumOfSquares / levels.length));
+
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= VOICE_NOTE_MAX_SECONDS) stopRecording(true);
+    }, SAMPLE_INTERVAL_MS);
+
+    recorder.start();
+    if (stateRef.current === 'idle') updateState('recording');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled || stateRef.current !== 'idle') return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerStartRef.current = { x: e.clientX, y: e.clientY };
+    pressingRef.current = true;
+    startRecording();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (stateRef.current !== 'recording' || !pointerStartRef.current) return;
+
+    const dx = e.clientX - pointerStartRef.current.x;
+    const dy = e.clientY - pointerStartRef.current.y;
+
+    if (dx < -CANCEL_DISTANCE) {
+      pressingRef.current = false;
+      stopRecording(false);
+    } else if (dy < -LOCK_DISTANCE) {
+      setSlideOffset(0);
+      updateState('locked');
+    } else {
+      setSlideOffset(Math.min(0, dx));
+    }
+  };
+
+  const handlePointerUp = () => {
+    pressingRef.current = false;
+    pointerStartRef.current = null;
+    if (stateRef.current === 'recording') stopRecording(true);
+  };
+
+  // Keyboard users get a locked recording straight away
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (disabled || stateRef.current !== 'idle' || (e.key !== 'Enter' && e.key !== ' ')) return;
+    e.preventDefault();
+    updateState('locked');
+    startRecording();
+  };
+
+  return (
+    <>
+      {state !== 'idle' && (
+        <div className="absolute inset-y-0 left-0 right-16 z-10 flex items-center gap-3 px-4 rounded-2xl bg-muted">
+          <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse flex-shrink-0" />
+          <span className="text-sm font-medium tabular-nums">{formatDuration(elapsed)}</span>
+          {state === 'recording' ? (
+            <span
+              className="flex-1 flex items-center justify-center gap-1 text-sm text-muted-foreground transition-transform"
+              style={{ transform: `translateX(${slideOffset}px)` }}
+            >
+              <ChevronLeft className="w-4 h-4" />
+              Slide to cancel
+            </span>
+          ) : (
+            <>
+              <span className="flex-1 text-sm text-muted-foreground">Recording…</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => stopRecording(false)}
+                className="h-9 w-9 rounded-full text-destructive hover:text-destructive"
+                aria-label="Discard recording"
+              >
+                <Trash2 className="w-5 h-5" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="relative">
+        {state === 'recording' && (
+          <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 flex flex-col items-center gap-1 px-2 py-3 rounded-full bg-muted text-muted-foreground shadow-md">
+            <Lock className="w-4 h-4" />
+            <ChevronLeft className="w-3 h-3 rotate-90" />
+          </div>
+        )}
+
+        {state === 'locked' ? (
+          <Button
+            type="button"
+            size="icon"
+            onClick={() => stopRecording(true)}
+            className="h-12 w-12 rounded-full gradient-primary hover:opacity-90 transition-opacity"
+            aria-label="Send voice message"
+          >
+            <Send className="w-5 h-5 text-primary-foreground" />
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            size="icon"
+            disabled={disabled}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+            onContextMenu={(e) => e.preventDefault()}
+            className={cn(
+              'h-12 w-12 rounded-full gradient-primary hover:opacity-90 transition-all touch-none select-none',
+              state === 'recording' && 'scale-125'
+            )}
+            aria-label="Hold to record a voice message"
+          >
+            <Mic className="w-5 h-5 text-primary-foreground" />
+          </Button>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default VoiceRecorder;
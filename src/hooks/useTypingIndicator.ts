@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Send at most one "typing" event per interval while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+// Drop a typist we haven't heard from in this long (covers missed "stopped" events)
+const TYPING_TIMEOUT_MS = 5000;
+
+interface TypingPayload {
+  user_id: string;
+  is_typing: boolean;
+}
+
+/**
+ * Typing indicators over a realtime broadcast channel.
+ * Events only travel between connected clients; nothing is written to the database.
+ */
+export const useTypingIndicator = (conversationId: string | undefined, userId: string | undefined) => {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const lastSentAtRef = useRef(0);
+  const expiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  useEffect(() => {
+    if (!conversationId || !userId) return;
+
+    const expiryTimers = expiryTimersRef.current;
+
+    const removeTypist = (typistId: string) => {
+      clearTimeout(expiryTimers.get(typistId));
+      expiryTimers.delete(typistId);
+      setTypingUserIds((prev) => prev.filter((id) => id !== typistId));
+    };
+
+    // Shared by everyone in the conversation; broadcasts are not echoed back to the sender
+    const channel = supabase
+      .channel(`typing-${conversationId}`)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { user_id: typistId, is_typing } = payload as TypingPayload;
+        if (typistId === userId) return;
+
+        if (!is_typing) {
+          removeTypist(typistId);
+          return;
+        }
+
+        clearTimeout(expiryTimers.get(typistId));
+        expiryTimers.set(typistId, setTimeout(() => removeTypist(typistId), TYPING_TIMEOUT_MS));
+        setTypingUserIds((prev) => (prev.includes(typistId) ? prev : [...prev, typistId]));
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      expiryTimers.forEach((timer) => clearTimeout(timer));
+      expiryTimers.clear();
+      setTypingUserIds([]);
+      lastSentAtRef.current = 0;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId]);
+
+  const sendTyping = useCallback(() => {
+    if (!channelRef.current || !userId) return;
+
+    const now = Date.now();
+    if (now - lastSentAtRef.current < TYPING_THROTTLE_MS) return;
+    lastSentAtRef.current = now;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: userId, is_typing: true } satisfies TypingPayload,
+    });
+  }, [userId]);
+
+  const sendStoppedTyping = useCallback(() => {
+    if (!channelRef.current || !userId || lastSentAtRef.current === 0) return;
+    lastSentAtRef.current = 0;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: userId, is_typing: false } satisfies TypingPayload,
+    });
+  }, [userId]);
+
+  return { typingUserIds, sendTyping, sendStoppedTyping };
+};
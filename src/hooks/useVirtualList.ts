@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useReducer, useRef, useState } from 'react';
+
+// Render this much (px) beyond each edge of the viewport so fast scrolling doesn't show gaps
+const OVERSCAN_PX = 800;
+// Within this distance (px) of the end the list counts as scrolled to the bottom and stays there
+const END_THRESHOLD_PX = 40;
+
+// What the scroll position sticks to when items are added, removed or resized
+type ScrollMode =
+  | { type: 'end' }
+  // The item at the top of the view, with `offset` px of it scrolled out above the viewport
+  | { type: 'anchor'; key: string; offset: number }
+  // An item scrolled to with scrollToKey, kept centred until the user scrolls
+  | { type: 'target'; key: string };
+
+interface Viewport {
+  scrollTop: number;
+  height: number;
+  // Where the list starts within the scroll container's content
+  listTop: number;
+  atEnd: boolean;
+}
+
+// getKey and estimateSize should be memoized: a new function recomputes every item's offset
+interface UseVirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Size (px) to assume for an item until it has rendered and been measured
+  estimateSize: (index: number) => number;
+}
+
+// Index of the item containing a position (px from the list's top)
+const findIndex = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+const getListTop = (scrollElement: HTMLElement, list: HTMLElement | null): number =>
+  list ? list.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop : 0;
+
+const readViewport = (scrollElement: HTMLElement, list: HTMLElement | null): Viewport => ({
+  scrollTop: scrollElement.scrollTop,
+  height: scrollElement.clientHeight,
+  listTop: getListTop(scrollElement, list),
+  atEnd: scrollElement.scrollHeight - scrollElement.scrollTop - scrollElement.clientHeight < END_THRESHOLD_PX,
+});
+
+/**
+ * Windowed rendering for a vertical list of variable-height items. Only the items near the
+ * viewport are rendered, between padding that stands in for the rest; each one is measured
+ * as it renders and its size cached by key.
+ *
+ * The scroll position sticks to the end of the list, to the item the user scrolled to, or to
+ * an item passed to scrollToKey, so prepending pages or images loading above the view don't
+ * move what the user is looking at.
+ */
+export const useVirtualList = ({ count, getKey, estimateSize }: UseVirtualListOptions) => {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ scrollTop: 0, height: 0, listTop: 0, atEnd: true });
+  // Measured item sizes by key
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  // Bumped to re-apply the scroll mode after it's changed, or after the viewport is resized
+  const [layoutVersion, forceLayout] = useReducer((version: number) => version + 1, 0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const modeRef = useRef<ScrollMode>({ type: 'end' });
+  // Where the scroll position was last left by us, to tell our own scrolling from the user's
+  const expectedScrollTopRef = useRef(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef<Set<HTMLElement>>(new Set());
+
+  // Item keys and the offset of each item's top edge, plus the total size at the end
+  const { keys, offsets } = useMemo(() => {
+    const keys: string[] = [];
+    const offsets: number[] = [0];
+    for (let i = 0; i < count; i++) {
+      const key = getKey(i);
+      keys.push(key);
+      offsets.push(offsets[i] + (sizes.get(key) ?? estimateSize(i)));
+    }
+    return { keys, offsets };
+  }, [count, getKey, estimateSize, sizes]);
+  // Event handlers outlive the render they were created in
+  const layoutRef = useRef({ keys, offsets });
+  layoutRef.current = { keys, offsets };
+
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    const handleScroll = () => {
+      const current = readViewport(scrollElement, listRef.current);
+
+      // Scrolled by the user (or a smooth scroll): stick to whatever is now in view
+      if (Math.abs(current.scrollTop - expectedScrollTopRef.current) > 1) {
+        const { keys, offsets } = layoutRef.current;
+        if (current.atEnd || keys.length === 0) {
+          modeRef.current = { type: 'end' };
+        } else {
+          const position = current.scrollTop - current.listTop;
+          const index = findIndex(offsets, position);
+          modeRef.current = { type: 'anchor', key: keys[index], offset: position - offsets[index] };
+        }
+        expectedScrollTopRef.current = current.scrollTop;
+      }
+
+      setViewport(current);
+    };
+
+    // The viewport shrinks and grows with the window and the on-screen keyboard
+    const resizeObserver = new ResizeObserver(() => forceLayout());
+    resizeObserver.observe(scrollElement);
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      resizeObserver.disconnect();
+      scrollElement.removeEventListener('scroll', handleScroll);
+    };
+  }, [scrollElement]);
+
+  useEffect(() => {
+    const observed = observedRef.current;
+    return () => {
+      observerRef.current?.disconnect();
+      observed.clear();
+    };
+  }, []);
+
+  // Whenever the items, their sizes or the viewport change, put the scroll position back where the mode wants it
+  useLayoutEffect(() => {
+    if (!scrollElement) return;
+
+    observedRef.current.forEach((element) => {
+      if (element.isConnected) return;
+      observerRef.current?.unobserve(element);
+      observedRef.current.delete(element);
+    });
+
+    const mode = modeRef.current;
+    const listTop = getListTop(scrollElement, listRef.current);
+    let top: number | null = null;
+
+    if (mode.type === 'end') {
+      top = scrollElement.scrollHeight - scrollElement.clientHeight;
+    } else {
+      const index = keys.indexOf(mode.key);
+      if (index !== -1) {
+        const size = offsets[index + 1] - offsets[index];
+        top = mode.type === 'anchor'
+          ? listTop + offsets[index] + mode.offset
+          : listTop + offsets[index] - Math.max(0, (scrollElement.clientHeight - size) / 2);
+      }
+    }
+
+    if (top !== null && Math.abs(scrollElement.scrollTop - top) > 1) {
+      scrollElement.scrollTop = top;
+    }
+    expectedScrollTopRef.current = scrollElement.scrollTop;
+
+    const current = readViewport(scrollElement, listRef.current);
+    if (
+      Math.abs(current.scrollTop - viewport.scrollTop) > 1 ||
+      current.height !== viewport.height ||
+      Math.abs(current.listTop - viewport.listTop) > 1 ||
+      current.atEnd !== viewport.atEnd
+    ) {
+      setViewport(current);
+    }
+  }, [scrollElement, keys, offsets, viewport, layoutVersion]);
+
+  // Callback ref for each rendered item; the element needs a data-key attribute
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element || observedRef.current.has(element)) return;
+
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        const measured = entries
+          .map(({ target }) => target as HTMLElement)
+          .filter((target) => target.isConnected && target.dataset.key)
+          .map((target) => [target.dataset.key, target.offsetHeight] as const);
+
+        setSizes((prev) => {
+          const changed = measured.filter(([key, size]) => prev.get(key) !== size);
+          if (changed.length === 0) return prev;
+          const next = new Map(prev);
+          changed.forEach(([key, size]) => next.set(key, size));
+          return next;
+        });
+      });
+    }
+
+    observedRef.current.add(element);
+    observerRef.current.observe(element);
+  }, []);
+
+  /**
+   * Scroll an item to the middle of the view and keep it there until the user scrolls.
+   * The item may be one that is only about to be rendered.
+   */
+  const scrollToKey = useCallback((key: string) => {
+    modeRef.current = { type: 'target', key };
+    forceLayout();
+  }, []);
+
+  /** Scroll to the end of the list; the view then stays at the bottom as items are added. */
+  const scrollToEnd = useCallback((smooth = false) => {
+    if (smooth && scrollElement) {
+      scrollElement.scrollTo({ top: scrollElement.scrollHeight, behavior: 'smooth' });
+      return;
+    }
+    modeRef.current = { type: 'end' };
+    forceLayout();
+  }, [scrollElement]);
+
+  const start = viewport.scrollTop - viewport.listTop - OVERSCAN_PX;
+  const end = viewport.scrollTop - viewport.listTop + viewport.height + OVERSCAN_PX;
+  const firstIndex = count === 0 ? 0 : findIndex(offsets, start);
+  const lastIndex = count === 0 ? -1 : findIndex(offsets, end);
+  const virtualItems: { index: number; key: string }[] = [];
+  for (let i = firstIndex; i <= lastIndex; i++) {
+    virtualItems.push({ index: i, key: keys[i] });
+  }
+
+  return {
+    scrollRef: setScrollElement,
+    listRef,
+    measureElement,
+    virtualItems,
+    paddingTop: offsets[firstIndex] ?? 0,
+    paddingBottom: count === 0 ? 0 : offsets[count] - offsets[lastIndex + 1],
+    // Whether the view is scrolled (close to) all the way down
+    isAtEnd: viewport.atEnd,
+    scrollToKey,
+    scrollToEnd,
+  };
+};
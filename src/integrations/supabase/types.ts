@@ -19,18 +19,24 @@ export type Database = {
           conversation_id: string
           id: string
           joined_at: string | null
+          last_read_at: string
+          role: string
           user_id: string
         }
         Insert: {
           conversation_id: string
           id?: string
           joined_at?: string | null
+          last_read_at?: string
+          role?: string
           user_id: string
         }
         Update: {
           conversation_id?: string
           id?: string
           joined_at?: string | null
+          last_read_at?: string
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -53,32 +59,124 @@ export type Database = {
       conversations: {
         Row: {
           created_at: string | null
+          created_by: string | null
           id: string
           is_group: boolean | null
+          message_ttl_seconds: number | null
           name: string | null
           theme: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
           id?: string
           is_group?: boolean | null
+          message_ttl_seconds?: number | null
           name?: string | null
           theme?: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
           id?: string
           is_group?: boolean | null
+          message_ttl_seconds?: number | null
           name?: string | null
           theme?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      hidden_messages: {
+        Row: {
+          created_at: string | null
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      link_previews: {
+        Row: {
+          description: string | null
+          fetched_at: string
+          image_url: string | null
+          site_name: string | null
+          title: string | null
+          url: string
+        }
+        Insert: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          title?: string | null
+          url: string
+        }
+        Update: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      message_edits: {
+        Row: {
+          edited_at: string
+          id: string
+          message_id: string
+          previous_content: string
+        }
+        Insert: {
+          edited_at?: string
+          id?: string
+          message_id: string
+          previous_content: string
+        }
+        Update: {
+          edited_at?: string
+          id?: string
+          message_id?: string
+          previous_content?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_reactions: {
         Row: {
+          conversation_id: string
           created_at: string | null
           emoji: string
           id: string
@@ -86,6 +184,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          conversation_id?: string
           created_at?: string | null
           emoji: string
           id?: string
@@ -93,6 +192,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          conversation_id?: string
           created_at?: string | null
           emoji?: string
           id?: string
@@ -100,6 +200,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "message_reactions_message_id_fkey"
             columns: ["message_id"]
@@ -115,36 +222,57 @@ export type Database = {
           conversation_id: string
           created_at: string | null
           deleted_at: string | null
+          edited_at: string | null
+          expires_at: string | null
           id: string
-          is_read: boolean | null
+          is_forwarded: boolean
+          link_preview_url: string | null
+          media_metadata: Json | null
           media_type: string | null
           media_url: string | null
+          mentions: string[]
           reply_to_id: string | null
           sender_id: string
+          system_event: Json | null
+          thread_root_id: string | null
         }
         Insert: {
           content: string
           conversation_id: string
           created_at?: string | null
           deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
           id?: string
-          is_read?: boolean | null
+          is_forwarded?: boolean
+          link_preview_url?: string | null
+          media_metadata?: Json | null
           media_type?: string | null
           media_url?: string | null
+          mentions?: string[]
           reply_to_id?: string | null
           sender_id: string
+          system_event?: Json | null
+          thread_root_id?: string | null
         }
         Update: {
           content?: string
           conversation_id?: string
           created_at?: string | null
           deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
           id?: string
-          is_read?: boolean | null
+          is_forwarded?: boolean
+          link_preview_url?: string | null
+          media_metadata?: Json | null
           media_type?: string | null
           media_url?: string | null
+          mentions?: string[]
           reply_to_id?: string | null
           sender_id?: string
+          system_event?: Json | null
+          thread_root_id?: string | null
         }
         Relationships: [
           {
@@ -168,6 +296,138 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_thread_root_id_fkey"
+            columns: ["thread_root_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pinned_messages: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          message_id: string
+          pinned_by: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          message_id: string
+          pinned_by: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          pinned_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pinned_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pinned_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          id: string
+          message_id: string
+          option_index: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message_id: string
+          option_index: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message_id?: string
+          option_index?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["message_id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allows_multiple: boolean
+          closed_at: string | null
+          conversation_id: string
+          created_at: string
+          created_by: string
+          is_anonymous: boolean
+          message_id: string
+          options: string[]
+          question: string
+          votes_updated_at: string
+        }
+        Insert: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          is_anonymous?: boolean
+          message_id: string
+          options: string[]
+          question: string
+          votes_updated_at?: string
+        }
+        Update: {
+          allows_multiple?: boolean
+          closed_at?: string | null
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          is_anonymous?: boolean
+          message_id?: string
+          options?: string[]
+          question?: string
+          votes_updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -179,6 +439,7 @@ export type Database = {
           is_online: boolean | null
           last_name_change: string | null
           last_seen: string | null
+          quick_reactions: string[] | null
           updated_at: string | null
           username: string | null
         }
@@ -190,6 +451,7 @@ export type Database = {
           is_online?: boolean | null
           last_name_change?: string | null
           last_seen?: string | null
+          quick_reactions?: string[] | null
           updated_at?: string | null
           username?: string | null
         }
@@ -201,11 +463,82 @@ export type Database = {
           is_online?: boolean | null
           last_name_change?: string | null
           last_seen?: string | null
+          quick_reactions?: string[] | null
           updated_at?: string | null
           username?: string | null
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          mentions: string[]
+          send_at: string
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          send_at: string
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          send_at?: string
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      starred_messages: {
+        Row: {
+          created_at: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "starred_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stories: {
         Row: {
           caption: string | null
@@ -288,10 +621,83 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_pin_messages: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      close_poll: { Args: { _message_id: string }; Returns: undefined }
+      create_poll: {
+        Args: {
+          _allows_multiple?: boolean
+          _conversation_id: string
+          _is_anonymous?: boolean
+          _options: string[]
+          _question: string
+        }
+        Returns: string
+      }
+      delete_for_everyone_window: { Args: never; Returns: unknown }
+      deliver_scheduled_messages: { Args: never; Returns: number }
+      escape_like_pattern: { Args: { _text: string }; Returns: string }
+      get_conversation_summaries: {
+        Args: {
+          _before_id?: string
+          _before_updated_at?: string
+          _conversation_id?: string
+          _limit?: number
+        }
+        Returns: {
+          conversation_id: string
+          is_group: boolean
+          last_message_content: string
+          last_message_created_at: string
+          last_message_id: string
+          last_message_sender_id: string
+          last_message_sender_name: string
+          mention_count: number
+          name: string
+          other_avatar_url: string
+          other_full_name: string
+          other_is_online: boolean
+          other_last_seen: string
+          other_user_id: string
+          other_username: string
+          participant_count: number
+          theme: string
+          unread_count: number
+          updated_at: string
+        }[]
+      }
       get_or_create_private_conversation: {
         Args: { _other_user_id: string }
         Returns: string
       }
+      get_poll_results: {
+        Args: { _message_ids: string[] }
+        Returns: {
+          message_id: string
+          option_index: number
+          vote_count: number
+        }[]
+      }
+      get_reaction_summaries: {
+        Args: { _message_ids: string[] }
+        Returns: {
+          emoji: string
+          message_id: string
+          reacted_by_me: boolean
+          reaction_count: number
+          sample_user_ids: string[]
+        }[]
+      }
+      get_thread_reply_counts: {
+        Args: { _root_ids: string[] }
+        Returns: {
+          reply_count: number
+          root_id: string
+        }[]
+      }
+      has_distinct_elements: { Args: { _values: string[] }; Returns: boolean }
       is_conversation_member: {
         Args: { _conversation_id: string; _user_id: string }
         Returns: boolean
@@ -301,6 +707,49 @@ export type Database = {
         Args: { _conversation_id: string }
         Returns: undefined
       }
+      message_search_query: { Args: { _query: string }; Returns: unknown }
+      search_conversation_messages: {
+        Args: { _conversation_id: string; _limit?: number; _query: string }
+        Returns: {
+          created_at: string
+          headline: string
+          id: string
+          sender_id: string
+        }[]
+      }
+      search_conversations: {
+        Args: { _query: string }
+        Returns: {
+          avatar_url: string
+          conversation_id: string
+          full_name: string
+          name: string
+          other_user_id: string
+          updated_at: string
+          username: string
+        }[]
+      }
+      search_messages: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          headline: string
+          id: string
+          sender_id: string
+        }[]
+      }
+      search_shared_files: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          file_name: string
+          id: string
+          media_url: string
+          sender_id: string
+        }[]
+      }
       search_users: {
         Args: { search_query: string }
         Returns: {
@@ -314,6 +763,10 @@ export type Database = {
         Args: { _profile_id: string; _viewer_id: string }
         Returns: boolean
       }
+      vote_in_poll: {
+        Args: { _message_id: string; _option_indexes: number[] }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
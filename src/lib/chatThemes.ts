@@ -6,6 +6,9 @@ export interface ChatTheme {
   sentText: string;
   receivedBubble: string;
   receivedText: string;
+  // Poll result bars: over sent bubbles (the theme gradient) and over received bubbles
+  sentPollBar: string;
+  receivedPollBar: string;
   preview: string; // For the picker preview
 }
 
@@ -18,6 +21,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-message-received',
     receivedText: 'text-foreground',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-primary/60',
     preview: 'bg-gradient-to-br from-primary to-primary/80',
   },
   {
@@ -28,6 +33,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-purple-900/40',
     receivedText: 'text-purple-50',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-purple-500/60',
     preview: 'bg-gradient-to-br from-purple-500 to-violet-600',
   },
   {
@@ -38,6 +45,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-cyan-900/40',
     receivedText: 'text-cyan-50',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-cyan-500/60',
     preview: 'bg-gradient-to-br from-cyan-500 to-blue-600',
   },
   {
@@ -48,6 +57,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-orange-900/40',
     receivedText: 'text-orange-50',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-orange-500/60',
     preview: 'bg-gradient-to-br from-orange-500 to-pink-600',
   },
   {
@@ -58,6 +69,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-indigo-950/60',
     receivedText: 'text-indigo-100',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-indigo-500/60',
     preview: 'bg-gradient-to-br from-indigo-600 to-slate-800',
   },
   {
@@ -68,6 +81,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-neutral-800/80',
     receivedText: 'text-neutral-100',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-neutral-500/60',
     preview: 'bg-gradient-to-br from-neutral-600 to-neutral-800',
   },
   {
@@ -78,6 +93,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-rose-900/40',
     receivedText: 'text-rose-50',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-rose-500/60',
     preview: 'bg-gradient-to-br from-rose-500 to-pink-600',
   },
   {
@@ -88,6 +105,8 @@ export const chatThemes: ChatTheme[] = [
     sentText: 'text-white',
     receivedBubble: 'bg-emerald-900/40',
     receivedText: 'text-emerald-50',
+    sentPollBar: 'bg-white/30',
+    receivedPollBar: 'bg-emerald-500/60',
     preview: 'bg-gradient-to-br from-emerald-500 to-teal-600',
   },
 ];
@@ -0,0 +1,146 @@
+/**
+ * Text edits behind the composer's formatting toolbar and shortcuts.
+ * They produce the markdown-style syntax understood by renderMessageContent.
+ */
+
+export type FormatAction = 'bold' | 'italic' | 'strike' | 'code' | 'codeBlock' | 'quote' | 'list';
+
+export interface FormatResult {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_MARKERS: Partial<Record<FormatAction, string>> = {
+  bold: '**',
+  italic: '_',
+  strike: '~~',
+  code: '`',
+};
+
+const LINE_PREFIXES: Partial<Record<FormatAction, string>> = {
+  quote: '> ',
+  list: '- ',
+};
+
+// Ctrl/Cmd shortcuts, matched on KeyboardEvent.code so they work across keyboard layouts
+const SHORTCUTS: Array<{ code: string; shift: boolean; action: FormatAction }> = [
+  { code: 'KeyB', shift: false, action: 'bold' },
+  { code: 'KeyI', shift: false, action: 'italic' },
+  { code: 'KeyX', shift: true, action: 'strike' },
+  { code: 'KeyE', shift: false, action: 'code' },
+  { code: 'KeyE', shift: true, action: 'codeBlock' },
+  { code: 'Digit9', shift: true, action: 'quote' },
+  { code: 'Digit8', shift: true, action: 'list' },
+];
+
+export const FORMAT_SHORTCUT_LABELS: Record<FormatAction, string> = {
+  bold: 'Ctrl+B',
+  italic: 'Ctrl+I',
+  strike: 'Ctrl+Shift+X',
+  code: 'Ctrl+E',
+  codeBlock: 'Ctrl+Shift+E',
+  quote: 'Ctrl+Shift+9',
+  list: 'Ctrl+Shift+8',
+};
+
+export const getShortcutAction = (
+  e: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): FormatAction | null => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  return SHORTCUTS.find(s => s.code === e.code && s.shift === e.shiftKey)?.action ?? null;
+};
+
+// Wrap the selection in a marker, or unwrap it when it is already wrapped
+const toggleInline = (value: string, start: number, end: number, marker: string): FormatResult => {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + value.slice(start, end) + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+
+  return {
+    value: before + marker + value.slice(start, end) + marker + after,
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  };
+};
+
+// Prefix every selected line, or remove the prefix when all of them already have it
+const toggleLinePrefix = (value: string, start: number, end: number, prefix: string): FormatResult => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = value.indexOf('\n', end);
+  const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const allPrefixed = lines.every(line => line.startsWith(prefix));
+  const updated = lines
+    .map(line => (allPrefixed ? line.slice(prefix.length) : prefix + line))
+    .join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length,
+  };
+};
+
+// Put the selection on its own lines between ``` fences
+const wrapCodeBlock = (value: string, start: number, end: number): FormatResult => {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  const opening = `${before && !before.endsWith('\n') ? '\n' : ''}\`\`\`\n`;
+  const closing = `\n\`\`\`${after && !after.startsWith('\n') ? '\n' : ''}`;
+
+  return {
+    value: before + opening + value.slice(start, end) + closing + after,
+    selectionStart: start + opening.length,
+    selectionEnd: end + opening.length,
+  };
+};
+
+export const applyFormat = (
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  action: FormatAction
+): FormatResult => {
+  const marker = INLINE_MARKERS[action];
+  if (marker) return toggleInline(value, selectionStart, selectionEnd, marker);
+
+  const prefix = LINE_PREFIXES[action];
+  if (prefix) return toggleLinePrefix(value, selectionStart, selectionEnd, prefix);
+
+  return wrapCodeBlock(value, selectionStart, selectionEnd);
+};
+
+export interface MentionQuery {
+  // Index of the "@" that starts the mention being typed
+  start: number;
+  query: string;
+}
+
+// The "@partial" directly before the caret, if the user is typing a mention
+export const getActiveMentionQuery = (value: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@(\w{0,24})$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+// Replace the "@partial" with the picked username and a trailing space
+export const insertMention = (
+  value: string,
+  mention: MentionQuery,
+  caret: number,
+  username: string
+): FormatResult => {
+  const inserted = `@${username} `;
+  const nextValue = value.slice(0, mention.start) + inserted + value.slice(caret);
+  const position = mention.start + inserted.length;
+  return { value: nextValue, selectionStart: position, selectionEnd: position };
+};
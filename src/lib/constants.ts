@@ -1,2 +1,16 @@
 // World Chat fixed UUID - this must match the database entry
 export const WORLD_CHAT_ID = '00000000-0000-0000-0000-000000000001';
+
+// How long a sender may still "delete for everyone" - this must match public.delete_for_everyone_window()
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 60 * 60 * 1000;
+
+// Disappearing message timers - these must match the conversations.message_ttl_seconds check
+export const MESSAGE_TTL_OPTIONS = [
+  { seconds: 60 * 60, label: '1 hour' },
+  { seconds: 24 * 60 * 60, label: '24 hours' },
+  { seconds: 7 * 24 * 60 * 60, label: '7 days' },
+  { seconds: 90 * 24 * 60 * 60, label: '90 days' },
+];
+
+// Voice messages stop recording (and are sent) after this long
+export const VOICE_NOTE_MAX_SECONDS = 5 * 60;
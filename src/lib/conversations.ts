@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { WORLD_CHAT_ID } from '@/lib/constants';
+
+export interface ConversationWithDetails {
+  id: string;
+  is_group: boolean;
+  name: string | null;
+  theme: string;
+  // The server's updated_at, used as the page cursor; realtime updates never patch it
+  updated_at: string;
+  // When the row last saw activity, for sorting and display; moved forward by new messages
+  lastActivityAt: string;
+  otherUser: {
+    id: string;
+    username: string | null;
+    full_name: string | null;
+    avatar_url: string | null;
+    is_online: boolean;
+    last_seen: string | null;
+  } | null;
+  lastMessage: {
+    id: string;
+    content: string;
+    created_at: string;
+    sender_id: string;
+    senderName?: string;
+  } | null;
+  unreadCount: number;
+  // Unread messages that @mention the user
+  mentionCount: number;
+  participantCount?: number;
+}
+
+export const getConversationTitle = (convo: ConversationWithDetails): string => {
+  if (convo.id === WORLD_CHAT_ID) return 'World Chat';
+  return convo.otherUser?.full_name || convo.otherUser?.username || convo.name || 'Unknown';
+};
+
+type ConversationSummary = Database['public']['Functions']['get_conversation_summaries']['Returns'][number];
+
+// Chats loaded per page of the chat list
+export const CONVERSATION_PAGE_SIZE = 30;
+
+const toConversationWithDetails = (row: ConversationSummary): ConversationWithDetails => ({
+  id: row.conversation_id,
+  is_group: row.is_group,
+  name: row.name,
+  theme: row.theme,
+  updated_at: row.updated_at,
+  lastActivityAt: row.updated_at,
+  otherUser: row.other_user_id
+    ? {
+        id: row.other_user_id,
+        username: row.other_username,
+        full_name: row.other_full_name,
+        avatar_url: row.other_avatar_url,
+        is_online: row.other_is_online,
+        last_seen: row.other_last_seen,
+      }
+    : null,
+  lastMessage: row.last_message_id
+    ? {
+        id: row.last_message_id,
+        content: row.last_message_content,
+        created_at: row.last_message_created_at,
+        sender_id: row.last_message_sender_id,
+        senderName: row.last_message_sender_name,
+      }
+    : null,
+  unreadCount: row.unread_count,
+  mentionCount: row.mention_count,
+  participantCount: row.participant_count,
+});
+
+/**
+ * Load the user's conversations with the details the chat list shows, in one query.
+ * World Chat is always first, the rest by most recent activity. Without a limit every
+ * conversation is returned; pass the last conversation of a page as `after` for the next one.
+ */
+export const fetchConversationList = async (
+  page?: { limit: number; after?: ConversationWithDetails }
+): Promise<ConversationWithDetails[]> => {
+  const { data, error } = await supabase.rpc('get_conversation_summaries', {
+    _limit: page?.limit,
+    _before_updated_at: page?.after?.updated_at,
+    _before_id: page?.after?.id,
+  });
+
+  if (error) {
+    console.error('Error fetching conversations:', error);
+    return [];
+  }
+
+  return (data || []).map(toConversationWithDetails);
+};
+
+// Reload a single conversation's row, e.g. after a realtime event; null if the user isn't in it
+export const fetchConversationSummary = async (conversationId: string): Promise<ConversationWithDetails | null> => {
+  const { data, error } = await supabase.rpc('get_conversation_summaries', { _conversation_id: conversationId });
+
+  if (error) {
+    console.error('Error fetching conversation:', error);
+    return null;
+  }
+
+  return data?.[0] ? toConversationWithDetails(data[0]) : null;
+};
+
+// Keep World Chat first and the rest by most recent activity
+export const sortConversations = (conversations: ConversationWithDetails[]): ConversationWithDetails[] =>
+  [...conversations].sort((a, b) => {
+    if (a.id === WORLD_CHAT_ID) return -1;
+    if (b.id === WORLD_CHAT_ID) return 1;
+    return new Date(b.lastActivityAt).getTime() - new Date(a.lastActivityAt).getTime();
+  });
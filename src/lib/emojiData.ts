@@ -0,0 +1,392 @@
+/**
+ * Emoji data and preferences for the emoji picker.
+ *
+ * Entries are written as "emoji|name" with a trailing "|t" on emojis that take a skin tone;
+ * names are the Unicode character names, which the picker search matches against.
+ */
+
+export interface EmojiInfo {
+  emoji: string;
+  name: string;
+  skinTones: boolean;
+}
+
+export interface EmojiCategory {
+  id: string;
+  label: string;
+  // Shown on the category tab
+  icon: string;
+  emojis: EmojiInfo[];
+}
+
+const parse = (entries: string[]): EmojiInfo[] =>
+  entries.map((entry) => {
+    const [emoji, name, flags] = entry.split('|');
+    return { emoji, name, skinTones: flags === 't' };
+  });
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  {
+    id: 'smileys',
+    label: 'Smileys & Emotion',
+    icon: '😀',
+    emojis: parse([
+      '😀|grinning face', '😃|smiling face with open mouth', '😄|smiling face with open mouth and smiling eyes',
+      '😁|grinning face with smiling eyes', '😆|smiling face with open mouth and tightly-closed eyes',
+      '😅|smiling face with open mouth and cold sweat', '🤣|rolling on the floor laughing',
+      '😂|face with tears of joy', '🙂|slightly smiling face', '🙃|upside-down face', '🫠|melting face',
+      '😉|winking face', '😊|smiling face with smiling eyes', '😇|smiling face with halo',
+      '🥰|smiling face with smiling eyes and three hearts', '😍|smiling face with heart-shaped eyes',
+      '🤩|grinning face with star eyes', '😘|face throwing a kiss', '😗|kissing face', '☺️|white smiling face',
+      '😚|kissing face with closed eyes', '😙|kissing face with smiling eyes', '🥲|smiling face with tear',
+      '😋|face savouring delicious food', '😛|face with stuck-out tongue',
+      '😜|face with stuck-out tongue and winking eye', '🤪|grinning face with one large and one small eye',
+      '😝|face with stuck-out tongue and tightly-closed eyes', '🤑|money-mouth face', '🤗|hugging face',
+      '🤭|smiling face with smiling eyes and hand covering mouth', '🫢|face with open eyes and hand over mouth',
+      '🫣|face with peeking eye', '🤫|face with finger covering closed lips', '🤔|thinking face',
+      '🫡|saluting face', '🤐|zipper-mouth face', '🤨|face with one eyebrow raised', '😐|neutral face',
+      '😑|expressionless face', '😶|face without mouth', '🫥|dotted line face', '😏|smirking face',
+      '😒|unamused face', '🙄|face with rolling eyes', '😬|grimacing face', '🤥|lying face', '😌|relieved face',
+      '😔|pensive face', '😪|sleepy face', '🤤|drooling face', '😴|sleeping face', '😷|face with medical mask',
+      '🤒|face with thermometer', '🤕|face with head-bandage', '🤢|nauseated face',
+      '🤮|face with open mouth vomiting', '🤧|sneezing face', '🥵|overheated face', '🥶|freezing face',
+      '🥴|face with uneven eyes and wavy mouth', '😵|dizzy face', '🤯|shocked face with exploding head',
+      '🤠|face with cowboy hat', '🥳|face with party horn and party hat', '🥸|disguised face',
+      '😎|smiling face with sunglasses', '🤓|nerd face', '🧐|face with monocle', '😕|confused face',
+      '🫤|face with diagonal mouth', '😟|worried face', '🙁|slightly frowning face', '☹️|white frowning face',
+      '😮|face with open mouth', '😯|hushed face', '😲|astonished face', '😳|flushed face',
+      '🥺|face with pleading eyes', '🥹|face holding back tears', '😦|frowning face with open mouth',
+      '😧|anguished face', '😨|fearful face', '😰|face with open mouth and cold sweat',
+      '😥|disappointed but relieved face', '😢|crying face', '😭|loudly crying face', '😱|face screaming in fear',
+      '😖|confounded face', '😣|persevering face', '😞|disappointed face', '😓|face with cold sweat',
+      '😩|weary face', '😫|tired face', '🥱|yawning face', '😤|face with look of triumph', '😡|pouting face',
+      '😠|angry face', '🤬|serious face with symbols covering mouth', '😈|smiling face with horns', '👿|imp',
+      '💀|skull', '☠️|skull and crossbones', '💩|pile of poo', '🤡|clown face', '👹|japanese ogre',
+      '👺|japanese goblin', '👻|ghost', '👽|extraterrestrial alien', '👾|alien monster', '🤖|robot face',
+      '😺|smiling cat face with open mouth', '😸|grinning cat face with smiling eyes',
+      '😹|cat face with tears of joy', '😻|smiling cat face with heart-shaped eyes', '😼|cat face with wry smile',
+      '😽|kissing cat face with closed eyes', '🙀|weary cat face', '😿|crying cat face', '😾|pouting cat face',
+      '🙈|see-no-evil monkey', '🙉|hear-no-evil monkey', '🙊|speak-no-evil monkey', '💋|kiss mark',
+      '💌|love letter', '💘|heart with arrow', '💝|heart with ribbon', '💖|sparkling heart', '💗|growing heart',
+      '💓|beating heart', '💞|revolving hearts', '💕|two hearts', '💟|heart decoration',
+      '❣️|heavy heart exclamation mark ornament', '💔|broken heart', '❤️|heavy black heart', '🧡|orange heart',
+      '💛|yellow heart', '💚|green heart', '💙|blue heart', '💜|purple heart', '🤎|brown heart', '🖤|black heart',
+      '🤍|white heart', '💯|hundred points symbol', '💢|anger symbol', '💥|collision symbol', '💫|dizzy symbol',
+      '💦|splashing sweat symbol', '💨|dash symbol', '🕳️|hole', '💬|speech balloon', '💭|thought balloon',
+      '💤|sleeping symbol',
+    ]),
+  },
+  {
+    id: 'people',
+    label: 'People & Body',
+    icon: '👋',
+    emojis: parse([
+      '👋|waving hand sign|t', '🤚|raised back of hand|t', '🖐️|raised hand with fingers splayed|t',
+      '✋|raised hand|t', '🖖|raised hand with part between middle and ring fingers|t', '👌|ok hand sign|t',
+      '🤌|pinched fingers|t', '🤏|pinching hand|t', '✌️|victory hand|t',
+      '🤞|hand with index and middle fingers crossed|t', '🫰|hand with index finger and thumb crossed',
+      '🤟|i love you hand sign|t', '🤘|sign of the horns|t', '🤙|call me hand|t',
+      '👈|white left pointing backhand index|t', '👉|white right pointing backhand index|t',
+      '👆|white up pointing backhand index|t', '🖕|reversed hand with middle finger extended|t',
+      '👇|white down pointing backhand index|t', '☝️|white up pointing index|t',
+      '🫵|index pointing at the viewer', '👍|thumbs up sign|t', '👎|thumbs down sign|t', '✊|raised fist|t',
+      '👊|fisted hand sign|t', '🤛|left-facing fist|t', '🤜|right-facing fist|t', '👏|clapping hands sign|t',
+      '🙌|person raising both hands in celebration|t', '🫶|heart hands', '👐|open hands sign|t',
+      '🤲|palms up together|t', '🤝|handshake', '🙏|person with folded hands|t', '✍️|writing hand|t',
+      '💅|nail polish|t', '🤳|selfie|t', '💪|flexed biceps|t', '🦾|mechanical arm', '🦿|mechanical leg', '🦵|leg|t',
+      '🦶|foot|t', '👂|ear|t', '🦻|ear with hearing aid|t', '👃|nose|t', '🧠|brain', '🫀|anatomical heart',
+      '🫁|lungs', '🦷|tooth', '🦴|bone', '👀|eyes', '👁️|eye', '👅|tongue', '👄|mouth', '🫦|biting lip', '👶|baby|t',
+      '🧒|child|t', '👦|boy|t', '👧|girl|t', '🧑|adult|t', '👱|person with blond hair|t', '👨|man|t',
+      '🧔|bearded person|t', '👩|woman|t', '🧓|older adult|t', '👴|older man|t', '👵|older woman|t',
+      '🙍|person frowning|t', '🙎|person with pouting face|t', '🙅|face with no good gesture|t',
+      '🙆|face with ok gesture|t', '💁|information desk person|t', '🙋|happy person raising one hand|t',
+      '🧏|deaf person|t', '🙇|person bowing deeply|t', '🤦|face palm|t', '🤷|shrug|t', '👮|police officer|t',
+      '🕵️|sleuth or spy|t', '💂|guardsman|t', '🥷|ninja|t', '👷|construction worker|t', '🤴|prince|t',
+      '👸|princess|t', '👳|man with turban|t', '👲|man with gua pi mao|t', '🧕|person with headscarf|t',
+      '🤵|man in tuxedo|t', '👰|bride with veil|t', '🤰|pregnant woman|t', '🤱|breast-feeding|t', '👼|baby angel|t',
+      '🎅|father christmas|t', '🤶|mother christmas|t', '🦸|superhero|t', '🦹|supervillain|t', '🧙|mage|t',
+      '🧚|fairy|t', '🧛|vampire|t', '🧜|merperson|t', '🧝|elf|t', '🧞|genie', '🧟|zombie', '💆|face massage|t',
+      '💇|haircut|t', '🚶|pedestrian|t', '🧍|standing person|t', '🧎|kneeling person|t', '🏃|runner|t',
+      '💃|dancer|t', '🕺|man dancing|t', '🕴️|man in business suit levitating', '👯|woman with bunny ears',
+      '🧖|person in steamy room', '🧗|person climbing|t', '🤺|fencer', '🏇|horse racing|t', '⛷️|skier',
+      '🏂|snowboarder|t', '🏌️|golfer|t', '🏄|surfer|t', '🚣|rowboat|t', '🏊|swimmer|t', '⛹️|person with ball|t',
+      '🏋️|weight lifter|t', '🚴|bicyclist|t', '🚵|mountain bicyclist|t', '🤸|person doing cartwheel|t',
+      '🤼|wrestlers', '🤽|water polo|t', '🤾|handball|t', '🤹|juggling|t', '🧘|person in lotus position|t',
+      '🛀|bath|t', '🛌|sleeping accommodation|t', '👭|two women holding hands', '👫|man and woman holding hands',
+      '👬|two men holding hands', '💏|kiss', '💑|couple with heart', '👪|family', '🗣️|speaking head in silhouette',
+      '👤|bust in silhouette', '👥|busts in silhouette', '🫂|people hugging', '👣|footprints',
+    ]),
+  },
+  {
+    id: 'nature',
+    label: 'Animals & Nature',
+    icon: '🐶',
+    emojis: parse([
+      '🐵|monkey face', '🐒|monkey', '🦍|gorilla', '🦧|orangutan', '🐶|dog face', '🐕|dog', '🦮|guide dog',
+      '🐩|poodle', '🐺|wolf face', '🦊|fox face', '🦝|raccoon', '🐱|cat face', '🐈|cat', '🦁|lion face',
+      '🐯|tiger face', '🐅|tiger', '🐆|leopard', '🐴|horse face', '🐎|horse', '🦄|unicorn face', '🦓|zebra face',
+      '🦌|deer', '🦬|bison', '🐮|cow face', '🐂|ox', '🐃|water buffalo', '🐄|cow', '🐷|pig face', '🐖|pig', '🐗|boar',
+      '🐽|pig nose', '🐏|ram', '🐑|sheep', '🐐|goat', '🐪|dromedary camel', '🐫|bactrian camel', '🦙|llama',
+      '🦒|giraffe face', '🐘|elephant', '🦣|mammoth', '🦏|rhinoceros', '🦛|hippopotamus', '🐭|mouse face', '🐁|mouse',
+      '🐀|rat', '🐹|hamster face', '🐰|rabbit face', '🐇|rabbit', '🐿️|chipmunk', '🦫|beaver', '🦔|hedgehog', '🦇|bat',
+      '🐻|bear face', '🐨|koala', '🐼|panda face', '🦥|sloth', '🦦|otter', '🦨|skunk', '🦘|kangaroo', '🦡|badger',
+      '🐾|paw prints', '🦃|turkey', '🐔|chicken', '🐓|rooster', '🐣|hatching chick', '🐤|baby chick',
+      '🐥|front-facing baby chick', '🐦|bird', '🐧|penguin', '🕊️|dove of peace', '🦅|eagle', '🦆|duck', '🦢|swan',
+      '🦉|owl', '🦤|dodo', '🪶|feather', '🦩|flamingo', '🦚|peacock', '🦜|parrot', '🐸|frog face', '🐊|crocodile',
+      '🐢|turtle', '🦎|lizard', '🐍|snake', '🐲|dragon face', '🐉|dragon', '🦕|sauropod', '🦖|t-rex',
+      '🐳|spouting whale', '🐋|whale', '🐬|dolphin', '🦭|seal', '🐟|fish', '🐠|tropical fish', '🐡|blowfish',
+      '🦈|shark', '🐙|octopus', '🐚|spiral shell', '🪸|coral', '🐌|snail', '🦋|butterfly', '🐛|bug', '🐜|ant',
+      '🐝|honeybee', '🪲|beetle', '🐞|lady beetle', '🦗|cricket', '🪳|cockroach', '🕷️|spider', '🕸️|spider web',
+      '🦂|scorpion', '🦟|mosquito', '🪰|fly', '🪱|worm', '🦠|microbe', '💐|bouquet', '🌸|cherry blossom',
+      '💮|white flower', '🪷|lotus', '🏵️|rosette', '🌹|rose', '🥀|wilted flower', '🌺|hibiscus', '🌻|sunflower',
+      '🌼|blossom', '🌷|tulip', '🌱|seedling', '🪴|potted plant', '🌲|evergreen tree', '🌳|deciduous tree',
+      '🌴|palm tree', '🌵|cactus', '🌾|ear of rice', '🌿|herb', '☘️|shamrock', '🍀|four leaf clover',
+      '🍁|maple leaf', '🍂|fallen leaf', '🍃|leaf fluttering in wind', '🪹|empty nest', '🪺|nest with eggs',
+      '🍄|mushroom', '🌍|earth globe europe-africa', '🌎|earth globe americas', '🌏|earth globe asia-australia',
+      '🌑|new moon symbol', '🌒|waxing crescent moon symbol', '🌓|first quarter moon symbol',
+      '🌔|waxing gibbous moon symbol', '🌕|full moon symbol', '🌖|waning gibbous moon symbol',
+      '🌗|last quarter moon symbol', '🌘|waning crescent moon symbol', '🌙|crescent moon', '🌚|new moon with face',
+      '🌛|first quarter moon with face', '🌜|last quarter moon with face', '☀️|black sun with rays',
+      '🌝|full moon with face', '🌞|sun with face', '🪐|ringed planet', '⭐|white medium star', '🌟|glowing star',
+      '🌠|shooting star', '🌌|milky way', '☁️|cloud', '⛅|sun behind cloud', '⛈️|thunder cloud and rain',
+      '🌤️|white sun with small cloud', '🌥️|white sun behind cloud', '🌦️|white sun behind cloud with rain',
+      '🌧️|cloud with rain', '🌨️|cloud with snow', '🌩️|cloud with lightning', '🌪️|cloud with tornado', '🌫️|fog',
+      '🌬️|wind blowing face', '🌀|cyclone', '🌈|rainbow', '🌂|closed umbrella', '☂️|umbrella',
+      '☔|umbrella with rain drops', '⚡|high voltage sign', '❄️|snowflake', '☃️|snowman',
+      '⛄|snowman without snow', '☄️|comet', '🔥|fire', '💧|droplet', '🌊|water wave',
+    ]),
+  },
+  {
+    id: 'food',
+    label: 'Food & Drink',
+    icon: '🍔',
+    emojis: parse([
+      '🍇|grapes', '🍈|melon', '🍉|watermelon', '🍊|tangerine', '🍋|lemon', '🍌|banana', '🍍|pineapple', '🥭|mango',
+      '🍎|red apple', '🍏|green apple', '🍐|pear', '🍑|peach', '🍒|cherries', '🍓|strawberry', '🫐|blueberries',
+      '🥝|kiwifruit', '🍅|tomato', '🫒|olive', '🥥|coconut', '🥑|avocado', '🍆|aubergine', '🥔|potato', '🥕|carrot',
+      '🌽|ear of maize', '🌶️|hot pepper', '🫑|bell pepper', '🥒|cucumber', '🥬|leafy green', '🥦|broccoli',
+      '🧄|garlic', '🧅|onion', '🥜|peanuts', '🫘|beans', '🌰|chestnut', '🍞|bread', '🥐|croissant',
+      '🥖|baguette bread', '🫓|flatbread', '🥨|pretzel', '🥯|bagel', '🥞|pancakes', '🧇|waffle', '🧀|cheese wedge',
+      '🍖|meat on bone', '🍗|poultry leg', '🥩|cut of meat', '🥓|bacon', '🍔|hamburger', '🍟|french fries',
+      '🍕|slice of pizza', '🌭|hot dog', '🥪|sandwich', '🌮|taco', '🌯|burrito', '🫔|tamale', '🥙|stuffed flatbread',
+      '🧆|falafel', '🥚|egg', '🍳|cooking', '🥘|shallow pan of food', '🍲|pot of food', '🫕|fondue',
+      '🥣|bowl with spoon', '🥗|green salad', '🍿|popcorn', '🧈|butter', '🧂|salt shaker', '🥫|canned food',
+      '🍱|bento box', '🍘|rice cracker', '🍙|rice ball', '🍚|cooked rice', '🍛|curry and rice', '🍜|steaming bowl',
+      '🍝|spaghetti', '🍠|roasted sweet potato', '🍢|oden', '🍣|sushi', '🍤|fried shrimp',
+      '🍥|fish cake with swirl design', '🥮|moon cake', '🍡|dango', '🥟|dumpling', '🥠|fortune cookie',
+      '🥡|takeout box', '🦀|crab', '🦞|lobster', '🦐|shrimp', '🦑|squid', '🦪|oyster', '🍦|soft ice cream',
+      '🍧|shaved ice', '🍨|ice cream', '🍩|doughnut', '🍪|cookie', '🎂|birthday cake', '🍰|shortcake', '🧁|cupcake',
+      '🥧|pie', '🍫|chocolate bar', '🍬|candy', '🍭|lollipop', '🍮|custard', '🍯|honey pot', '🍼|baby bottle',
+      '🥛|glass of milk', '☕|hot beverage', '🫖|teapot', '🍵|teacup without handle', '🍶|sake bottle and cup',
+      '🍾|bottle with popping cork', '🍷|wine glass', '🍸|cocktail glass', '🍹|tropical drink', '🍺|beer mug',
+      '🍻|clinking beer mugs', '🥂|clinking glasses', '🥃|tumbler glass', '🫗|pouring liquid', '🥤|cup with straw',
+      '🧋|bubble tea', '🧃|beverage box', '🧉|mate drink', '🧊|ice cube', '🥢|chopsticks',
+      '🍽️|fork and knife with plate', '🍴|fork and knife', '🥄|spoon', '🔪|hocho', '🫙|jar', '🏺|amphora',
+    ]),
+  },
+  {
+    id: 'activities',
+    label: 'Activities',
+    icon: '⚽',
+    emojis: parse([
+      '🎃|jack-o-lantern', '🎄|christmas tree', '🎆|fireworks', '🎇|firework sparkler', '🧨|firecracker',
+      '✨|sparkles', '🎈|balloon', '🎉|party popper', '🎊|confetti ball', '🎋|tanabata tree', '🎍|pine decoration',
+      '🎎|japanese dolls', '🎏|carp streamer', '🎐|wind chime', '🎑|moon viewing ceremony', '🧧|red gift envelope',
+      '🎀|ribbon', '🎁|wrapped present', '🎗️|reminder ribbon', '🎟️|admission tickets', '🎫|ticket',
+      '🎖️|military medal', '🏆|trophy', '🏅|sports medal', '🥇|first place medal', '🥈|second place medal',
+      '🥉|third place medal', '⚽|soccer ball', '⚾|baseball', '🥎|softball', '🏀|basketball and hoop',
+      '🏐|volleyball', '🏈|american football', '🏉|rugby football', '🎾|tennis racquet and ball', '🥏|flying disc',
+      '🎳|bowling', '🏏|cricket bat and ball', '🏑|field hockey stick and ball', '🏒|ice hockey stick and puck',
+      '🥍|lacrosse stick and ball', '🏓|table tennis paddle and ball', '🏸|badminton racquet and shuttlecock',
+      '🥊|boxing glove', '🥋|martial arts uniform', '🥅|goal net', '⛳|flag in hole', '⛸️|ice skate',
+      '🎣|fishing pole and fish', '🤿|diving mask', '🎽|running shirt with sash', '🎿|ski and ski boot', '🛷|sled',
+      '🥌|curling stone', '🎯|direct hit', '🪀|yo-yo', '🪁|kite', '🎱|billiards', '🔮|crystal ball', '🪄|magic wand',
+      '🧿|nazar amulet', '🪬|hamsa', '🎮|video game', '🕹️|joystick', '🎰|slot machine', '🎲|game die',
+      '🧩|jigsaw puzzle piece', '🧸|teddy bear', '🪅|pinata', '🪩|mirror ball', '🪆|nesting dolls',
+      '♠️|black spade suit', '♥️|black heart suit', '♦️|black diamond suit', '♣️|black club suit',
+      '♟️|black chess pawn', '🃏|playing card black joker', '🀄|mahjong tile red dragon',
+      '🎴|flower playing cards', '🎭|performing arts', '🖼️|frame with picture', '🎨|artist palette',
+      '🧵|spool of thread', '🪡|sewing needle', '🧶|ball of yarn', '🪢|knot', '🎤|microphone', '🎧|headphone',
+      '🎷|saxophone', '🪗|accordion', '🎸|guitar', '🎹|musical keyboard', '🎺|trumpet', '🎻|violin', '🪕|banjo',
+      '🥁|drum with drumsticks', '🪘|long drum', '🎬|clapper board', '🏹|bow and arrow',
+    ]),
+  },
+  {
+    id: 'travel',
+    label: 'Travel & Places',
+    icon: '✈️',
+    emojis: parse([
+      '🗺️|world map', '🗾|silhouette of japan', '🧭|compass', '🏔️|snow capped mountain', '⛰️|mountain',
+      '🌋|volcano', '🗻|mount fuji', '🏕️|camping', '🏖️|beach with umbrella', '🏜️|desert', '🏝️|desert island',
+      '🏞️|national park', '🏟️|stadium', '🏛️|classical building', '🏗️|building construction', '🧱|brick',
+      '🪨|rock', '🪵|wood', '🛖|hut', '🏘️|house buildings', '🏚️|derelict house building', '🏠|house building',
+      '🏡|house with garden', '🏢|office building', '🏣|japanese post office', '🏤|european post office',
+      '🏥|hospital', '🏦|bank', '🏨|hotel', '🏩|love hotel', '🏪|convenience store', '🏫|school',
+      '🏬|department store', '🏭|factory', '🏯|japanese castle', '🏰|european castle', '💒|wedding',
+      '🗼|tokyo tower', '🗽|statue of liberty', '⛪|church', '🕌|mosque', '🛕|hindu temple', '🕍|synagogue',
+      '⛩️|shinto shrine', '🕋|kaaba', '⛲|fountain', '⛺|tent', '🌁|foggy', '🌃|night with stars', '🏙️|cityscape',
+      '🌄|sunrise over mountains', '🌅|sunrise', '🌆|cityscape at dusk', '🌇|sunset over buildings',
+      '🌉|bridge at night', '🎠|carousel horse', '🛝|playground slide', '🎡|ferris wheel', '🎢|roller coaster',
+      '💈|barber pole', '🎪|circus tent', '🚂|steam locomotive', '🚃|railway car', '🚄|high-speed train',
+      '🚅|high-speed train with bullet nose', '🚆|train', '🚇|metro', '🚈|light rail', '🚉|station', '🚊|tram',
+      '🚝|monorail', '🚞|mountain railway', '🚋|tram car', '🚌|bus', '🚍|oncoming bus', '🚎|trolleybus', '🚐|minibus',
+      '🚑|ambulance', '🚒|fire engine', '🚓|police car', '🚔|oncoming police car', '🚕|taxi', '🚖|oncoming taxi',
+      '🚗|automobile', '🚘|oncoming automobile', '🚙|recreational vehicle', '🛻|pickup truck', '🚚|delivery truck',
+      '🚛|articulated lorry', '🚜|tractor', '🏎️|racing car', '🏍️|racing motorcycle', '🛵|motor scooter',
+      '🦽|manual wheelchair', '🦼|motorized wheelchair', '🛺|auto rickshaw', '🚲|bicycle', '🛴|scooter',
+      '🛹|skateboard', '🛼|roller skate', '🚏|bus stop', '🛣️|motorway', '🛤️|railway track', '⛽|fuel pump',
+      '🛞|wheel', '🚨|police cars revolving light', '🚥|horizontal traffic light', '🚦|vertical traffic light',
+      '🛑|octagonal sign', '🚧|construction sign', '⚓|anchor', '🛟|ring buoy', '⛵|sailboat', '🛶|canoe',
+      '🚤|speedboat', '🛳️|passenger ship', '⛴️|ferry', '🛥️|motor boat', '🚢|ship', '✈️|airplane',
+      '🛩️|small airplane', '🛫|airplane departure', '🛬|airplane arriving', '🪂|parachute', '💺|seat',
+      '🚁|helicopter', '🚟|suspension railway', '🚠|mountain cableway', '🚡|aerial tramway', '🛰️|satellite',
+      '🚀|rocket', '🛸|flying saucer', '🧳|luggage', '⌛|hourglass', '⏳|hourglass with flowing sand', '⌚|watch',
+      '⏰|alarm clock', '⏱️|stopwatch', '⏲️|timer clock', '🕰️|mantelpiece clock',
+    ]),
+  },
+  {
+    id: 'objects',
+    label: 'Objects',
+    icon: '💡',
+    emojis: parse([
+      '👓|eyeglasses', '🕶️|dark sunglasses', '🥽|goggles', '🥼|lab coat', '🦺|safety vest', '👔|necktie',
+      '👕|t-shirt', '👖|jeans', '🧣|scarf', '🧤|gloves', '🧥|coat', '🧦|socks', '👗|dress', '👘|kimono', '🥻|sari',
+      '🩱|one-piece swimsuit', '🩲|briefs', '🩳|shorts', '👙|bikini', '👚|womans clothes', '👛|purse', '👜|handbag',
+      '👝|pouch', '🛍️|shopping bags', '🎒|school satchel', '🩴|thong sandal', '👞|mans shoe', '👟|athletic shoe',
+      '🥾|hiking boot', '🥿|flat shoe', '👠|high-heeled shoe', '👡|womans sandal', '🩰|ballet shoes',
+      '👢|womans boots', '👑|crown', '👒|womans hat', '🎩|top hat', '🎓|graduation cap', '🧢|billed cap',
+      '🪖|military helmet', '⛑️|helmet with white cross', '📿|prayer beads', '💄|lipstick', '💍|ring',
+      '💎|gem stone', '🔇|speaker with cancellation stroke', '🔈|speaker', '🔉|speaker with one sound wave',
+      '🔊|speaker with three sound waves', '📢|public address loudspeaker', '📣|cheering megaphone',
+      '📯|postal horn', '🔔|bell', '🔕|bell with cancellation stroke', '🎼|musical score', '🎵|musical note',
+      '🎶|multiple musical notes', '🎙️|studio microphone', '🎚️|level slider', '🎛️|control knobs', '📻|radio',
+      '📱|mobile phone', '📲|mobile phone with rightwards arrow at left', '☎️|black telephone',
+      '📞|telephone receiver', '📟|pager', '📠|fax machine', '🔋|battery', '🪫|low battery', '🔌|electric plug',
+      '💻|personal computer', '🖥️|desktop computer', '🖨️|printer', '⌨️|keyboard', '🖱️|three button mouse',
+      '🖲️|trackball', '💽|minidisc', '💾|floppy disk', '💿|optical disc', '📀|dvd', '🧮|abacus', '🎥|movie camera',
+      '🎞️|film frames', '📽️|film projector', '📺|television', '📷|camera', '📸|camera with flash',
+      '📹|video camera', '📼|videocassette', '🔍|left-pointing magnifying glass',
+      '🔎|right-pointing magnifying glass', '🕯️|candle', '💡|electric light bulb', '🔦|electric torch',
+      '🏮|izakaya lantern', '🪔|diya lamp', '📔|notebook with decorative cover', '📕|closed book', '📖|open book',
+      '📗|green book', '📘|blue book', '📙|orange book', '📚|books', '📓|notebook', '📒|ledger', '📃|page with curl',
+      '📜|scroll', '📄|page facing up', '📰|newspaper', '🗞️|rolled-up newspaper', '📑|bookmark tabs', '🔖|bookmark',
+      '🏷️|label', '💰|money bag', '🪙|coin', '💴|banknote with yen sign', '💵|banknote with dollar sign',
+      '💶|banknote with euro sign', '💷|banknote with pound sign', '💸|money with wings', '💳|credit card',
+      '🧾|receipt', '💹|chart with upwards trend and yen sign', '✉️|envelope', '📧|e-mail symbol',
+      '📨|incoming envelope', '📩|envelope with downwards arrow above', '📤|outbox tray', '📥|inbox tray',
+      '📦|package', '📫|closed mailbox with raised flag', '📪|closed mailbox with lowered flag',
+      '📬|open mailbox with raised flag', '📭|open mailbox with lowered flag', '📮|postbox',
+      '🗳️|ballot box with ballot', '✏️|pencil', '✒️|black nib', '🖋️|lower left fountain pen',
+      '🖊️|lower left ballpoint pen', '🖌️|lower left paintbrush', '🖍️|lower left crayon', '📝|memo',
+      '💼|briefcase', '📁|file folder', '📂|open file folder', '🗂️|card index dividers', '📅|calendar',
+      '📆|tear-off calendar', '🗒️|spiral note pad', '🗓️|spiral calendar pad', '📇|card index',
+      '📈|chart with upwards trend', '📉|chart with downwards trend', '📊|bar chart', '📋|clipboard', '📌|pushpin',
+      '📍|round pushpin', '📎|paperclip', '🖇️|linked paperclips', '📏|straight ruler', '📐|triangular ruler',
+      '✂️|black scissors', '🗃️|card file box', '🗄️|file cabinet', '🗑️|wastebasket', '🔒|lock', '🔓|open lock',
+      '🔏|lock with ink pen', '🔐|closed lock with key', '🔑|key', '🗝️|old key', '🔨|hammer', '🪓|axe', '⛏️|pick',
+      '⚒️|hammer and pick', '🛠️|hammer and wrench', '🗡️|dagger knife', '⚔️|crossed swords', '🔫|pistol',
+      '🪃|boomerang', '🛡️|shield', '🪚|carpentry saw', '🔧|wrench', '🪛|screwdriver', '🔩|nut and bolt', '⚙️|gear',
+      '🗜️|compression', '⚖️|scales', '🦯|probing cane', '🔗|link symbol', '⛓️|chains', '🪝|hook', '🧰|toolbox',
+      '🧲|magnet', '🪜|ladder', '⚗️|alembic', '🧪|test tube', '🧫|petri dish', '🧬|dna double helix',
+      '🔬|microscope', '🔭|telescope', '📡|satellite antenna', '💉|syringe', '🩸|drop of blood', '💊|pill',
+      '🩹|adhesive bandage', '🩼|crutch', '🩺|stethoscope', '🩻|x-ray', '🚪|door', '🛗|elevator', '🪞|mirror',
+      '🪟|window', '🛏️|bed', '🛋️|couch and lamp', '🪑|chair', '🚽|toilet', '🪠|plunger', '🚿|shower', '🛁|bathtub',
+      '🪤|mouse trap', '🪒|razor', '🧴|lotion bottle', '🧷|safety pin', '🧹|broom', '🧺|basket', '🧻|roll of paper',
+      '🪣|bucket', '🧼|bar of soap', '🫧|bubbles', '🪥|toothbrush', '🧽|sponge', '🧯|fire extinguisher',
+      '🛒|shopping trolley', '🚬|smoking symbol', '⚰️|coffin', '🪦|headstone', '⚱️|funeral urn', '🗿|moyai',
+      '🪧|placard', '🪪|identification card',
+    ]),
+  },
+  {
+    id: 'symbols',
+    label: 'Symbols',
+    icon: '❤️',
+    emojis: parse([
+      '🏧|automated teller machine', '🚮|put litter in its place symbol', '🚰|potable water symbol',
+      '♿|wheelchair symbol', '🚹|mens symbol', '🚺|womens symbol', '🚻|restroom', '🚼|baby symbol',
+      '🚾|water closet', '🛂|passport control', '🛃|customs', '🛄|baggage claim', '🛅|left luggage',
+      '⚠️|warning sign', '🚸|children crossing', '⛔|no entry', '🚫|no entry sign', '🚳|no bicycles',
+      '🚭|no smoking symbol', '🚯|do not litter symbol', '🚱|non-potable water symbol', '🚷|no pedestrians',
+      '📵|no mobile phones', '🔞|no one under eighteen symbol', '☢️|radioactive sign', '☣️|biohazard sign',
+      '⬆️|upwards black arrow', '↗️|north east arrow', '➡️|black rightwards arrow', '↘️|south east arrow',
+      '⬇️|downwards black arrow', '↙️|south west arrow', '⬅️|leftwards black arrow', '↖️|north west arrow',
+      '↕️|up down arrow', '↔️|left right arrow', '↩️|leftwards arrow with hook',
+      '↪️|rightwards arrow with hook', '⤴️|arrow pointing rightwards then curving upwards',
+      '⤵️|arrow pointing rightwards then curving downwards',
+      '🔃|clockwise downwards and upwards open circle arrows',
+      '🔄|anticlockwise downwards and upwards open circle arrows', '🔙|back with leftwards arrow above',
+      '🔚|end with leftwards arrow above', '🔛|on with exclamation mark with left right arrow above',
+      '🔜|soon with rightwards arrow above', '🔝|top with upwards arrow above', '🛐|place of worship',
+      '⚛️|atom symbol', '🕉️|om symbol', '✡️|star of david', '☸️|wheel of dharma', '☯️|yin yang',
+      '✝️|latin cross', '☦️|orthodox cross', '☪️|star and crescent', '☮️|peace symbol',
+      '🕎|menorah with nine branches', '🔯|six pointed star with middle dot', '♈|aries', '♉|taurus', '♊|gemini',
+      '♋|cancer', '♌|leo', '♍|virgo', '♎|libra', '♏|scorpius', '♐|sagittarius', '♑|capricorn', '♒|aquarius',
+      '♓|pisces', '⛎|ophiuchus', '🔀|twisted rightwards arrows',
+      '🔁|clockwise rightwards and leftwards open circle arrows',
+      '🔂|clockwise rightwards and leftwards open circle arrows with circled one overlay',
+      '▶️|black right-pointing triangle', '⏩|black right-pointing double triangle',
+      '⏭️|black right-pointing double triangle with vertical bar',
+      '⏯️|black right-pointing triangle with double vertical bar', '◀️|black left-pointing triangle',
+      '⏪|black left-pointing double triangle', '⏮️|black left-pointing double triangle with vertical bar',
+      '🔼|up-pointing small red triangle', '⏫|black up-pointing double triangle',
+      '🔽|down-pointing small red triangle', '⏬|black down-pointing double triangle', '⏸️|double vertical bar',
+      '⏹️|black square for stop', '⏺️|black circle for record', '⏏️|eject symbol', '🎦|cinema',
+      '🔅|low brightness symbol', '🔆|high brightness symbol', '📶|antenna with bars', '📳|vibration mode',
+      '📴|mobile phone off', '♀️|female sign', '♂️|male sign', '⚧️|male with stroke and male and female sign',
+      '✖️|heavy multiplication x', '➕|heavy plus sign', '➖|heavy minus sign', '➗|heavy division sign',
+      '🟰|heavy equals sign', '♾️|permanent paper sign', '‼️|double exclamation mark',
+      '⁉️|exclamation question mark', '❓|black question mark ornament', '❔|white question mark ornament',
+      '❕|white exclamation mark ornament', '❗|heavy exclamation mark symbol', '〰️|wavy dash',
+      '💱|currency exchange', '💲|heavy dollar sign', '⚕️|staff of aesculapius',
+      '♻️|black universal recycling symbol', '⚜️|fleur-de-lis', '🔱|trident emblem', '📛|name badge',
+      '🔰|japanese symbol for beginner', '⭕|heavy large circle', '✅|white heavy check mark',
+      '☑️|ballot box with check', '✔️|heavy check mark', '❌|cross mark', '❎|negative squared cross mark',
+      '➰|curly loop', '➿|double curly loop', '〽️|part alternation mark', '✳️|eight spoked asterisk',
+      '✴️|eight pointed black star', '❇️|sparkle', '©️|copyright sign', '®️|registered sign',
+      '™️|trade mark sign', '🔟|keycap ten', '🔠|input symbol for latin capital letters',
+      '🔡|input symbol for latin small letters', '🔢|input symbol for numbers', '🔣|input symbol for symbols',
+      '🔤|input symbol for latin letters', '🅰️|negative squared latin capital letter a',
+      '🆎|negative squared ab', '🅱️|negative squared latin capital letter b', '🆑|squared cl', '🆒|squared cool',
+      '🆓|squared free', 'ℹ️|information source', '🆔|squared id', 'Ⓜ️|circled latin capital letter m',
+      '🆕|squared new', '🆖|squared ng', '🅾️|negative squared latin capital letter o', '🆗|squared ok',
+      '🅿️|negative squared latin capital letter p', '🆘|squared sos', '🆙|squared up with exclamation mark',
+      '🆚|squared vs', '🈁|squared katakana koko', '🈂️|squared katakana sa',
+      '🈷️|squared cjk unified ideograph-6708', '🈶|squared cjk unified ideograph-6709',
+      '🈯|squared cjk unified ideograph-6307', '🉐|circled ideograph advantage',
+      '🈹|squared cjk unified ideograph-5272', '🈚|squared cjk unified ideograph-7121',
+      '🈲|squared cjk unified ideograph-7981', '🉑|circled ideograph accept',
+      '🈸|squared cjk unified ideograph-7533', '🈴|squared cjk unified ideograph-5408',
+      '🈳|squared cjk unified ideograph-7a7a', '㊗️|circled ideograph congratulation',
+      '㊙️|circled ideograph secret', '🈺|squared cjk unified ideograph-55b6',
+      '🈵|squared cjk unified ideograph-6e80', '🔴|large red circle', '🟠|large orange circle',
+      '🟡|large yellow circle', '🟢|large green circle', '🔵|large blue circle', '🟣|large purple circle',
+      '🟤|large brown circle', '⚫|medium black circle', '⚪|medium white circle', '🟥|large red square',
+      '🟧|large orange square', '🟨|large yellow square', '🟩|large green square', '🟦|large blue square',
+      '🟪|large purple square', '🟫|large brown square', '⬛|black large square', '⬜|white large square',
+      '◼️|black medium square', '◻️|white medium square', '◾|black medium small square',
+      '◽|white medium small square', '▪️|black small square', '▫️|white small square',
+      '🔶|large orange diamond', '🔷|large blue diamond', '🔸|small orange diamond', '🔹|small blue diamond',
+      '🔺|up-pointing red triangle', '🔻|down-pointing red triangle', '💠|diamond shape with a dot inside',
+      '🔘|radio button', '🔳|white square button', '🔲|black square button', '🏁|chequered flag',
+      '🚩|triangular flag on post', '🎌|crossed flags', '🏴|waving black flag', '🏳️|waving white flag',
+    ]),
+  },
+  {
+    id: 'flags',
+    label: 'Flags',
+    icon: '🏳️',
+    emojis: parse([
+      '🇦🇷|flag argentina', '🇦🇺|flag australia', '🇦🇹|flag austria', '🇧🇪|flag belgium', '🇧🇷|flag brazil',
+      '🇨🇦|flag canada', '🇨🇱|flag chile', '🇨🇳|flag china', '🇨🇴|flag colombia', '🇭🇷|flag croatia',
+      '🇨🇿|flag czechia', '🇩🇰|flag denmark', '🇪🇬|flag egypt', '🇪🇺|flag european union', '🇫🇮|flag finland',
+      '🇫🇷|flag france', '🇩🇪|flag germany', '🇬🇷|flag greece', '🇭🇺|flag hungary', '🇮🇳|flag india',
+      '🇮🇩|flag indonesia', '🇮🇪|flag ireland', '🇮🇱|flag israel', '🇮🇹|flag italy', '🇯🇵|flag japan',
+      '🇰🇪|flag kenya', '🇲🇽|flag mexico', '🇲🇦|flag morocco', '🇳🇱|flag netherlands', '🇳🇿|flag new zealand',
+      '🇳🇬|flag nigeria', '🇳🇴|flag norway', '🇵🇰|flag pakistan', '🇵🇪|flag peru', '🇵🇭|flag philippines',
+      '🇵🇱|flag poland', '🇵🇹|flag portugal', '🇷🇴|flag romania', '🇸🇦|flag saudi arabia', '🇸🇬|flag singapore',
+      '🇿🇦|flag south africa', '🇰🇷|flag south korea', '🇪🇸|flag spain', '🇸🇪|flag sweden', '🇨🇭|flag switzerland',
+      '🇹🇭|flag thailand', '🇹🇷|flag turkey', '🇺🇦|flag ukraine', '🇦🇪|flag united arab emirates',
+      '🇬🇧|flag united kingdom', '🇺🇳|flag united nations', '🇺🇸|flag united states', '🇻🇳|flag vietnam',
+    ]),
+  },
+];
@@ -0,0 +1,68 @@
+import { EMOJI_CATEGORIES } from '@/lib/emojiData';
+
+// Quick reactions for users who haven't picked their own (profiles.quick_reactions is null)
+export const DEFAULT_QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+export const MAX_QUICK_REACTIONS = 6;
+
+export const SKIN_TONES = [
+  { modifier: '', label: 'Default' },
+  { modifier: '🏻', label: 'Light' },
+  { modifier: '🏼', label: 'Medium-light' },
+  { modifier: '🏽', label: 'Medium' },
+  { modifier: '🏾', label: 'Medium-dark' },
+  { modifier: '🏿', label: 'Dark' },
+];
+
+const RECENT_EMOJIS_KEY = 'recent-emojis';
+const SKIN_TONE_KEY = 'emoji-skin-tone';
+const MAX_RECENT_EMOJIS = 24;
+
+export const getRecentEmojis = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_EMOJIS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentEmoji = (emoji: string) => {
+  const recent = [emoji, ...getRecentEmojis().filter((e) => e !== emoji)].slice(0, MAX_RECENT_EMOJIS);
+  localStorage.setItem(RECENT_EMOJIS_KEY, JSON.stringify(recent));
+};
+
+export const getSkinTone = (): string => localStorage.getItem(SKIN_TONE_KEY) || '';
+
+export const setSkinTone = (modifier: string) => {
+  localStorage.setItem(SKIN_TONE_KEY, modifier);
+};
+
+// "👍" + "🏽" -> "👍🏽"; the variation selector has to go for the modifier to apply
+export const applySkinTone = (emoji: string, modifier: string): string =>
+  modifier ? emoji.replace(/\ufe0f/g, '') + modifier : emoji;
+
+/** Emojis whose name contains every word of the query. */
+export const searchEmojis = (query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  return EMOJI_CATEGORIES.flatMap((category) => category.emojis).filter((info) =>
+    words.every((word) => info.name.includes(word))
+  );
+};
+
+const EMOJI_ONLY_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f|\s)+$/u;
+
+/** Whether a message is just a few emojis (shown at a larger size). */
+export const isEmojiOnly = (text: string, max = 3): boolean => {
+  const trimmed = text?.trim();
+  if (!trimmed || !EMOJI_ONLY_PATTERN.test(trimmed)) return false;
+
+  // Joined sequences (👨‍👩‍👧) and flag pairs count as one emoji
+  const pictographs = trimmed.match(/\p{Extended_Pictographic}/gu)?.length ?? 0;
+  const joiners = trimmed.match(/\u200d/g)?.length ?? 0;
+  const flagLetters = trimmed.match(/\p{Regional_Indicator}/gu)?.length ?? 0;
+  const count = pictographs - joiners + Math.ceil(flagLetters / 2);
+
+  return count > 0 && count <= max;
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type LinkPreview = Tables<'link_previews'>;
+
+interface PreviewLookup {
+  preview: Promise<LinkPreview | null>;
+  failedAt?: number;
+}
+
+// One lookup per URL per session, shared by the composer and every bubble showing it.
+// Failed lookups are only remembered briefly so a flaky site or a late unfurl can still show up.
+const previewCache = new Map<string, PreviewLookup>();
+const FAILED_LOOKUP_TTL_MS = 30 * 1000;
+
+/** Same canonical form the link-preview edge function caches under (no fragment). */
+export const normalizeLinkUrl = (raw: string): string | null => {
+  try {
+    const url = new URL(raw);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+const unfurlLink = async (url: string): Promise<LinkPreview | null> => {
+  const { data, error } = await supabase.functions.invoke('link-preview', { body: { url } });
+  if (error || !data || data.error) return null;
+  return data as LinkPreview;
+};
+
+const readCachedPreview = async (url: string): Promise<LinkPreview | null> => {
+  const { data } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+  return data;
+};
+
+/**
+ * Load the preview for a link. The composer unfurls (via the edge function); bubbles only read
+ * the cache table, since a message only carries a link_preview_url once its preview was unfurled.
+ */
+export const loadLinkPreview = (url: string, { unfurl = false } = {}): Promise<LinkPreview | null> => {
+  const key = `${unfurl ? 'unfurl' : 'cache'}:${url}`;
+  const cached = previewCache.get(key);
+  if (cached && !(cached.failedAt && Date.now() - cached.failedAt > FAILED_LOOKUP_TTL_MS)) {
+    return cached.preview;
+  }
+
+  const lookup: PreviewLookup = {
+    preview: (unfurl ? unfurlLink(url) : readCachedPreview(url)).catch(() => null),
+  };
+  previewCache.set(key, lookup);
+
+  lookup.preview.then((preview) => {
+    if (!preview) {
+      lookup.failedAt = Date.now();
+    } else if (unfurl) {
+      // The unfurl wrote the cache row; bubbles showing this link can use the result directly
+      previewCache.set(`cache:${url}`, { preview: lookup.preview });
+    }
+  });
+  return lookup.preview;
+};
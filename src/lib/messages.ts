@@ -0,0 +1,11 @@
+// Drop the embedded hidden_messages marker used to filter out hidden rows
+// (queries select '*, hidden_messages(id)' and keep rows where it is null)
+export const stripHiddenMarker = <T extends { hidden_messages?: unknown }>(rows: T[]): Omit<T, 'hidden_messages'>[] =>
+  rows.map(({ hidden_messages, ...row }) => row);
+
+// Disappearing messages stay in the database until the purge job runs; hide them as soon as they expire
+export const isMessageExpired = (message: { expires_at?: string | null }, now = Date.now()): boolean =>
+  !!message.expires_at && new Date(message.expires_at).getTime() <= now;
+
+// PostgREST filter for rows that haven't expired yet, for use with .or()
+export const notExpiredFilter = (): string => `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { compressImage } from '@/lib/imageCompression';
+
+/**
+ * Local outbox for outgoing messages.
+ *
+ * Every message is written here (with its files) before it is sent, under a client-generated id
+ * that becomes the row id on the server. Entries are removed once the insert succeeds, so anything
+ * still in the outbox after a failure or a reload can be retried without creating duplicates.
+ */
+
+export interface OutboxFile {
+  file: File;
+  // Public URL once uploaded, so a retry doesn't upload the same file twice
+  url?: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  reply_to_id: string | null;
+  // Ids of the users mentioned in the content
+  mentions: string[];
+  // Link the message shows a preview card for
+  link_preview_url: string | null;
+  // 'gallery' | 'image' | 'video' | 'document' | 'audio', or null for text-only messages
+  media_type: string | null;
+  // Voice messages: duration and waveform (entries queued before this existed have none)
+  media_metadata?: Json | null;
+  created_at: string;
+  files: OutboxFile[];
+  // Error code of a failure that retrying won't fix; automatic flushes skip the entry after it
+  failed_code?: string;
+}
+
+const DB_NAME = 'chatshot-outbox';
+const STORE_NAME = 'messages';
+
+const openOutbox = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('sender_id', 'sender_id');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openOutbox();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// Writes are best-effort: without IndexedDB (e.g. private browsing) messages are still sent,
+// they just don't survive a reload
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.error('Error saving to outbox:', error);
+  }
+};
+
+export const removeFromOutbox = async (id: string): Promise<void> => {
+  try {
+    await withStore('readwrite', (store) => store.delete(id));
+  } catch (error) {
+    console.error('Error removing from outbox:', error);
+  }
+};
+
+/** All unsent messages of a user, oldest first. */
+export const getOutboxEntries = async (senderId: string): Promise<OutboxEntry[]> => {
+  try {
+    const entries = await withStore<OutboxEntry[]>('readonly', (store) =>
+      store.index('sender_id').getAll(senderId)
+    );
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+};
+
+const uploadOutboxFile = async (userId: string, file: File): Promise<string> => {
+  const fileToUpload = file.type.startsWith('image/')
+    ? await compressImage(file, {
+        maxWidth: 1280,
+        maxHeight: 1280,
+        quality: 0.8,
+        outputType: 'image/jpeg',
+      })
+    : file;
+
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${userId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('chat-media')
+    .upload(fileName, fileToUpload);
+
+  if (error) throw error;
+
+  const { data: urlData } = supabase.storage
+    .from('chat-media')
+    .getPublicUrl(fileName);
+
+  return urlData.publicUrl;
+};
+
+// Postgres errors a retry can't get past: no longer allowed to post (e.g. after leaving the
+// conversation), the conversation or replied-to message is gone, or the row is rejected
+const PERMANENT_ERROR_CODES = new Set(['42501', '23503', '23514', '22P02']);
+
+/** The error's code when retrying the same entry would fail the same way, otherwise null. */
+export const getPermanentErrorCode = (error: unknown): string | null => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.has(code) ? code : null;
+};
+
+/**
+ * Upload an entry's files, insert the message and drop it from the outbox.
+ * Throws when any step fails; the entry then stays queued for the next attempt.
+ */
+export const deliverOutboxEntry = async (entry: OutboxEntry): Promise<Tables<'messages'>> => {
+  for (const outboxFile of entry.files) {
+    if (outboxFile.url) continue;
+    outboxFile.url = await uploadOutboxFile(entry.sender_id, outboxFile.file);
+    await putOutboxEntry(entry);
+  }
+
+  const urls = entry.files.map((f) => f.url as string);
+  const mediaUrl = entry.media_type === 'gallery' ? JSON.stringify(urls) : urls[0] ?? null;
+
+  const { data: inserted, error } = await supabase
+    .from('messages')
+    .insert({
+      id: entry.id,
+      conversation_id: entry.conversation_id,
+      sender_id: entry.sender_id,
+      content: entry.content,
+      media_url: mediaUrl,
+      media_type: entry.media_type,
+      media_metadata: entry.media_metadata ?? null,
+      reply_to_id: entry.reply_to_id,
+      mentions: entry.mentions ?? [],
+      link_preview_url: entry.link_preview_url ?? null,
+    })
+    .select()
+    .single();
+
+  let message = inserted;
+  if (error) {
+    // Duplicate id: an earlier attempt reached the server but we never saw the response
+    if (error.code !== '23505') throw error;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('id', entry.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+    message = existing;
+  }
+
+  await removeFromOutbox(entry.id);
+
+  // Update conversation timestamp
+  await supabase
+    .from('conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', entry.conversation_id);
+
+  return message;
+};
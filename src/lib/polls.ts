@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export interface PollData extends Tables<'polls'> {
+  // Votes per option, in option order
+  counts: number[];
+  // Options the current user voted for
+  myVotes: number[];
+  // Who voted for each option (public polls only; empty lists for anonymous ones)
+  voters: string[][];
+}
+
+/** Load polls with their results for the given poll messages, keyed by message id. */
+export const fetchPolls = async (messageIds: string[], userId: string): Promise<Record<string, PollData>> => {
+  if (messageIds.length === 0) return {};
+
+  const [{ data: polls, error }, { data: results }, { data: votes }] = await Promise.all([
+    supabase.from('polls').select('*').in('message_id', messageIds),
+    supabase.rpc('get_poll_results', { _message_ids: messageIds }),
+    // RLS returns our own votes plus everyone's votes in public polls
+    supabase.from('poll_votes').select('message_id, user_id, option_index').in('message_id', messageIds),
+  ]);
+
+  if (error) {
+    console.error('Error fetching polls:', error);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (polls || []).map((poll) => {
+      const counts = poll.options.map(() => 0);
+      const voters: string[][] = poll.options.map(() => []);
+      const myVotes: number[] = [];
+
+      (results || [])
+        .filter((r) => r.message_id === poll.message_id && r.option_index < counts.length)
+        .forEach((r) => {
+          counts[r.option_index] = r.vote_count;
+        });
+
+      (votes || [])
+        .filter((v) => v.message_id === poll.message_id && v.option_index < counts.length)
+        .forEach((v) => {
+          if (v.user_id === userId) myVotes.push(v.option_index);
+          if (!poll.is_anonymous) voters[v.option_index].push(v.user_id);
+        });
+
+      return [poll.message_id, { ...poll, counts, myVotes, voters }];
+    })
+  );
+};
@@ -0,0 +1,69 @@
+// One emoji's reactions on a message, as returned by get_reaction_summaries
+export interface ReactionSummary {
+  emoji: string;
+  reaction_count: number;
+  reacted_by_me: boolean;
+  // The first few people who reacted, oldest first
+  sample_user_ids: string[];
+}
+
+export interface ReactionChange {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+// Matches the sample size of get_reaction_summaries
+const MAX_SAMPLE_USERS = 8;
+
+/**
+ * Apply one added or removed reaction to a message's summaries.
+ * Our own reactions are applied as soon as the request returns and then relayed back to us too,
+ * so they are only counted when reacted_by_me says they aren't yet.
+ */
+export const applyReactionChange = (
+  summaries: ReactionSummary[],
+  reaction: ReactionChange,
+  change: 'added' | 'removed',
+  currentUserId: string
+): ReactionSummary[] => {
+  const isMine = reaction.user_id === currentUserId;
+  const existing = summaries.find((s) => s.emoji === reaction.emoji);
+
+  if (change === 'added') {
+    if (!existing) {
+      return [
+        ...summaries,
+        { emoji: reaction.emoji, reaction_count: 1, reacted_by_me: isMine, sample_user_ids: [reaction.user_id] },
+      ];
+    }
+    if (isMine && existing.reacted_by_me) return summaries;
+
+    return summaries.map((s) =>
+      s === existing
+        ? {
+            ...s,
+            reaction_count: s.reaction_count + 1,
+            reacted_by_me: s.reacted_by_me || isMine,
+            sample_user_ids: s.sample_user_ids.includes(reaction.user_id)
+              ? s.sample_user_ids
+              : [...s.sample_user_ids, reaction.user_id].slice(0, MAX_SAMPLE_USERS),
+          }
+        : s
+    );
+  }
+
+  if (!existing || (isMine && !existing.reacted_by_me)) return summaries;
+  if (existing.reaction_count <= 1) return summaries.filter((s) => s !== existing);
+
+  return summaries.map((s) =>
+    s === existing
+      ? {
+          ...s,
+          reaction_count: s.reaction_count - 1,
+          reacted_by_me: isMine ? false : s.reacted_by_me,
+          sample_user_ids: s.sample_user_ids.filter((id) => id !== reaction.user_id),
+        }
+      : s
+  );
+};
@@ -0,0 +1,311 @@
+import React from 'react';
+import CodeBlock from '@/components/chat/CodeBlock';
+
+/**
+ * Markdown-style message formatting.
+ *
+ * Supported: **bold**, *italic* / _italic_, ~~strikethrough~~, `inline code`, ```fenced code```
+ * (with an optional language for highlighting), "> " block quotes, "- " / "1. " lists, http(s) links
+ * and @username mentions.
+ *
+ * Messages are parsed into a small tree and rendered as React elements, never as HTML strings,
+ * so user content is always escaped by React.
+ */
+
+type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string }
+  | { type: 'mention'; username: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] };
+
+type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+// Earliest match wins; on a tie the rule listed first wins. Code and links are atomic.
+const INLINE_RULES: Array<{ type: 'code' | 'link' | 'mention' | 'bold' | 'italic' | 'strike'; regex: RegExp }> = [
+  { type: 'code', regex: /`([^`\n]+)`/ },
+  { type: 'link', regex: /(https?:\/\/[^\s]+)/ },
+  // The leading character (if any) keeps e-mail addresses from counting as mentions
+  { type: 'mention', regex: /(^|[^\w@])@(\w{3,24})(?!\w)/ },
+  { type: 'bold', regex: /\*\*(?=\S)([\s\S]*?\S)\*\*/ },
+  { type: 'strike', regex: /~~(?=\S)([\s\S]*?\S)~~/ },
+  { type: 'italic', regex: /\*(?=[^\s*])([^*]*?[^\s*])\*|\b_(?=[^\s_])([^_]*?[^\s_])_\b/ },
+];
+
+const FENCE_REGEX = /^```\s*([\w+#-]*)\s*$/;
+const QUOTE_REGEX = /^>\s?(.*)$/;
+const UNORDERED_ITEM_REGEX = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_ITEM_REGEX = /^\s*(\d+)[.)]\s+(.*)$/;
+
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    let best: { rule: (typeof INLINE_RULES)[number]; match: RegExpExecArray } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.regex.exec(rest);
+      if (match && (!best || match.index < best.match.index)) {
+        best = { rule, match };
+      }
+    }
+
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    const { rule, match } = best;
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const inner = match[1] ?? match[2] ?? '';
+    if (rule.type === 'mention') {
+      if (match[1]) nodes.push({ type: 'text', text: match[1] });
+      nodes.push({ type: 'mention', username: match[2] });
+    } else if (rule.type === 'code') {
+      nodes.push({ type: 'code', text: inner });
+    } else if (rule.type === 'link') {
+      nodes.push({ type: 'link', url: inner });
+    } else {
+      nodes.push({ type: rule.type, children: parseInline(inner) });
+    }
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+};
+
+const parseBlocks = (content: string): BlockNode[] => {
+  const lines = content.split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE_REGEX.exec(line);
+    if (fence) {
+      // An unclosed fence runs to the end of the message
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_REGEX.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), code: codeLines.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_REGEX.test(lines[i])) {
+        quoted.push(QUOTE_REGEX.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM_REGEX.exec(line);
+    if (ordered || UNORDERED_ITEM_REGEX.test(line)) {
+      const itemRegex = ordered ? ORDERED_ITEM_REGEX : UNORDERED_ITEM_REGEX;
+      const items: InlineNode[][] = [];
+      while (i < lines.length && itemRegex.test(lines[i])) {
+        const item = itemRegex.exec(lines[i])!;
+        items.push(parseInline(ordered ? item[2] : item[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: !!ordered, start: ordered ? Number(ordered[1]) : 1, items });
+      continue;
+    }
+
+    // Plain lines up to the next block start form one paragraph, keeping their line breaks
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      !FENCE_REGEX.test(lines[i]) &&
+      !QUOTE_REGEX.test(lines[i]) &&
+      !ORDERED_ITEM_REGEX.test(lines[i]) &&
+      !UNORDERED_ITEM_REGEX.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'paragraph', children: parseInline(text) });
+    }
+  }
+
+  return blocks;
+};
+
+export interface RenderOptions {
+  // Usernames the message actually mentions; other @words stay plain text
+  mentionedUsernames?: string[];
+  // Mentions of the current user get a stronger highlight
+  currentUsername?: string | null;
+}
+
+const renderInline = (nodes: InlineNode[], options: RenderOptions): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-black/10 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline hover:text-primary/70 break-all"
+          >
+            {node.url}
+          </a>
+        );
+      case 'mention': {
+        const username = node.username.toLowerCase();
+        if (!options.mentionedUsernames?.some(u => u.toLowerCase() === username)) {
+          return <React.Fragment key={index}>@{node.username}</React.Fragment>;
+        }
+        const isMe = username === options.currentUsername?.toLowerCase();
+        return (
+          <span
+            key={index}
+            className={`px-1 rounded font-medium ${isMe ? 'bg-amber-400/40' : 'bg-primary/20'}`}
+          >
+            @{node.username}
+          </span>
+        );
+      }
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children, options)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, options)}</s>;
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[], options: RenderOptions): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap">
+            {renderInline(block.children, options)}
+          </p>
+        );
+      case 'code':
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-2 border-l-2 border-current opacity-80">
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderInline(item, options)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">{items}</ul>
+        );
+      }
+    }
+  });
+
+/** Render message text with formatting, code highlighting and clickable links. */
+export const renderMessageContent = (content: string, options: RenderOptions = {}): React.ReactNode =>
+  renderBlocks(parseBlocks(content), options);
+
+const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text' || node.type === 'code') return node.text;
+      if (node.type === 'link') return node.url;
+      if (node.type === 'mention') return `@${node.username}`;
+      return inlineToPlainText(node.children);
+    })
+    .join('');
+
+const blocksToPlainText = (blocks: BlockNode[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineToPlainText(block.children);
+        case 'code':
+          return block.code;
+        case 'quote':
+          return blocksToPlainText(block.children);
+        case 'list':
+          return block.items
+            .map((item, i) => `${block.ordered ? `${block.start + i}.` : '•'} ${inlineToPlainText(item)}`)
+            .join('\n');
+      }
+    })
+    .join('\n');
+
+/** Strip formatting markers, for previews (chat list, replies, pinned banner). */
+export const toPlainText = (content: string): string => blocksToPlainText(parseBlocks(content));
+
+const collectMentions = (blocks: BlockNode[]): string[] => {
+  const fromInline = (nodes: InlineNode[]): string[] =>
+    nodes.flatMap((node) => {
+      if (node.type === 'mention') return [node.username.toLowerCase()];
+      if (node.type === 'bold' || node.type === 'italic' || node.type === 'strike') {
+        return fromInline(node.children);
+      }
+      return [];
+    });
+
+  return blocks.flatMap((block) => {
+    if (block.type === 'paragraph') return fromInline(block.children);
+    if (block.type === 'quote') return collectMentions(block.children);
+    if (block.type === 'list') return block.items.flatMap(fromInline);
+    return [];
+  });
+};
+
+/** Lowercased @usernames written in a message, ignoring anything inside code. */
+export const getMentionedUsernames = (content: string): string[] =>
+  Array.from(new Set(collectMentions(parseBlocks(content))));
+
+const collectLinks = (blocks: BlockNode[]): string[] => {
+  const fromInline = (nodes: InlineNode[]): string[] =>
+    nodes.flatMap((node) => {
+      if (node.type === 'link') return [node.url];
+      if (node.type === 'bold' || node.type === 'italic' || node.type === 'strike') {
+        return fromInline(node.children);
+      }
+      return [];
+    });
+
+  return blocks.flatMap((block) => {
+    if (block.type === 'paragraph') return fromInline(block.children);
+    if (block.type === 'quote') return collectLinks(block.children);
+    if (block.type === 'list') return block.items.flatMap(fromInline);
+    return [];
+  });
+};
+
+/** Links written in a message, in order, ignoring anything inside code. */
+export const getLinks = (content: string): string[] => collectLinks(parseBlocks(content));
@@ -0,0 +1,45 @@
+import { Json } from '@/integrations/supabase/types';
+
+// Stored in messages.media_metadata for media_type 'audio'
+export type VoiceNoteMetadata = {
+  duration: number;
+  // Peak levels between 0 and 1, one per bar
+  waveform: number[];
+};
+
+export const VOICE_NOTE_WAVEFORM_BARS = 40;
+
+// Content label of voice messages (shown in chat lists and notifications)
+export const VOICE_NOTE_LABEL = '🎤 Voice message';
+
+export const getVoiceNoteMetadata = (metadata: Json | null | undefined): VoiceNoteMetadata | null => {
+  const value = metadata as Partial<VoiceNoteMetadata> | null;
+  if (!value || typeof value.duration !== 'number' || !Array.isArray(value.waveform)) return null;
+  return { duration: value.duration, waveform: value.waveform };
+};
+
+/** Reduce the level samples taken while recording to a fixed number of bars, scaled so the loudest is 1. */
+export const downsampleWaveform = (samples: number[], bars = VOICE_NOTE_WAVEFORM_BARS): number[] => {
+  if (samples.length === 0) return new Array(bars).fill(0);
+
+  const buckets = Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor((i * samples.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * samples.length) / bars));
+    return Math.max(...samples.slice(start, end));
+  });
+  const peak = Math.max(...buckets) || 1;
+
+  return buckets.map((level) => Math.round((level / peak) * 100) / 100);
+};
+
+// 75 -> "1:15"
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Chrome and Firefox record Opus in WebM/Ogg; Safari only supports MP4
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const getRecordingMimeType = (): string | undefined =>
+  RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
@@ -1,20 +1,52 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, Send, Globe, Paperclip, X, FileText, Loader2, Settings } from 'lucide-react';
+import { ArrowLeft, Send, Globe, Paperclip, X, FileText, Loader2, Search, Settings, Type, CalendarClock, Timer, BarChart3, Smile, ChevronDown } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
-import { WORLD_CHAT_ID } from '@/lib/constants';
-import { compressImage } from '@/lib/imageCompression';
-import { Progress } from '@/components/ui/progress';
+import { MESSAGE_TTL_OPTIONS, WORLD_CHAT_ID } from '@/lib/constants';
+import { Tables } from '@/integrations/supabase/types';
+import { OutboxEntry, deliverOutboxEntry, getOutboxEntries, getPermanentErrorCode, putOutboxEntry, removeFromOutbox } from '@/lib/outbox';
 import ThemePicker from '@/components/chat/ThemePicker';
 import { getThemeById } from '@/lib/chatThemes';
 import MessageBubble, { MessageData, Reaction } from '@/components/chat/MessageBubble';
 import ReplyPreview from '@/components/chat/ReplyPreview';
+import ForwardDialog from '@/components/chat/ForwardDialog';
+import PinnedBanner, { PinnedMessage } from '@/components/chat/PinnedBanner';
+import FormattingToolbar from '@/components/chat/FormattingToolbar';
+import MentionSuggestions, { MentionCandidate } from '@/components/chat/MentionSuggestions';
+import LinkPreviewCard from '@/components/chat/LinkPreviewCard';
+import ThreadPanel from '@/components/chat/ThreadPanel';
+import MessageSearchBar from '@/components/chat/MessageSearchBar';
+import ScheduleMessageDialog from '@/components/chat/ScheduleMessageDialog';
+import ScheduledMessagesList from '@/components/chat/ScheduledMessagesList';
+import DisappearingMessagesMenu from '@/components/chat/DisappearingMessagesMenu';
+import CreatePollDialog from '@/components/chat/CreatePollDialog';
+import VoiceRecorder from '@/components/chat/VoiceRecorder';
+import EmojiPicker from '@/components/chat/EmojiPicker';
+import ReactionsSheet from '@/components/chat/ReactionsSheet';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import {
+  FormatAction,
+  MentionQuery,
+  applyFormat,
+  getActiveMentionQuery,
+  getShortcutAction,
+  insertMention,
+} from '@/lib/composerFormatting';
+import { getLinks, getMentionedUsernames } from '@/lib/richText';
+import { isMessageExpired, notExpiredFilter, stripHiddenMarker } from '@/lib/messages';
+import { PollData, fetchPolls } from '@/lib/polls';
+import { VOICE_NOTE_LABEL, VoiceNoteMetadata } from '@/lib/voiceNotes';
+import { DEFAULT_QUICK_REACTIONS } from '@/lib/emojis';
+import { ReactionChange, ReactionSummary, applyReactionChange } from '@/lib/reactions';
+import { loadLinkPreview, normalizeLinkUrl } from '@/lib/linkPreviews';
 
 interface OtherUser {
   id: string;
@@ -37,36 +69,169 @@ interface SelectedFileInfo {
   previewUrl: string | null;
 }
 
+// "Ana is typing…", "Ana and Ben are typing…", "Ana, Ben and 3 others are typing…"
+const formatTypingText = (names: string[]): string => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} other${others > 1 ? 's' : ''} are typing…`;
+};
+
+// Height (px, with the gap below it) to assume for a message that hasn't been rendered yet
+const estimateMessageHeight = (message: MessageData): number => {
+  if (message.system_event) return 44;
+  if (message.media_type === 'poll') return 280;
+  if (message.media_type === 'image' || message.media_type === 'video' || message.media_type === 'gallery') return 300;
+  return 88;
+};
+
+// Render a queued message from its local files until the server row replaces it
+const toOptimisticMessage = (
+  entry: OutboxEntry,
+  status: MessageData['status'],
+  previewUrls: string[]
+): MessageData => ({
+  id: entry.id,
+  content: entry.content,
+  sender_id: entry.sender_id,
+  created_at: entry.created_at,
+  media_type: entry.media_type,
+  media_metadata: entry.media_metadata ?? null,
+  media_url: entry.media_type === 'gallery' ? JSON.stringify(previewUrls) : previewUrls[0] ?? null,
+  reply_to_id: entry.reply_to_id,
+  mentions: entry.mentions,
+  link_preview_url: entry.link_preview_url,
+  status,
+});
+
 const Chat = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [messages, setMessages] = useState<MessageData[]>([]);
-  const [reactions, setReactions] = useState<Reaction[]>([]);
+  // Grouped reactions per message id, and the messages they have been loaded for
+  const [reactionSummaries, setReactionSummaries] = useState<Record<string, ReactionSummary[]>>({});
+  const loadedReactionIdsRef = useRef<Set<string>>(new Set());
   const [newMessage, setNewMessage] = useState('');
   const [otherUser, setOtherUser] = useState<OtherUser | null>(null);
   const [participants, setParticipants] = useState<Record<string, Participant>>({});
   const [participantCount, setParticipantCount] = useState(0);
+  const [readCursors, setReadCursors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [selectedFiles, setSelectedFiles] = useState<SelectedFileInfo[]>([]);
   const [conversationTheme, setConversationTheme] = useState('default');
+  const [messageTtl, setMessageTtl] = useState<number | null>(null);
+  const [isGroup, setIsGroup] = useState(false);
+  // Bumped when the next message expires so it drops out of the timeline
+  const [expiryClock, setExpiryClock] = useState(Date.now());
   const [themePickerOpen, setThemePickerOpen] = useState(false);
   const [themeUpdating, setThemeUpdating] = useState(false);
   const [replyingTo, setReplyingTo] = useState<MessageData | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [editingMessage, setEditingMessage] = useState<MessageData | null>(null);
+  const [forwardingMessage, setForwardingMessage] = useState<MessageData | null>(null);
+  const [starredIds, setStarredIds] = useState<Set<string>>(new Set());
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [canPin, setCanPin] = useState(false);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  // Message whose full reaction list is open, with every reaction on it
+  const [reactionsMessageId, setReactionsMessageId] = useState<string | null>(null);
+  const reactionsMessageIdRef = useRef<string | null>(null);
+  const [sheetReactions, setSheetReactions] = useState<Reaction[]>([]);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // The current user's pending scheduled messages in this conversation
+  const [scheduledMessages, setScheduledMessages] = useState<Tables<'scheduled_messages'>[]>([]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [scheduledListOpen, setScheduledListOpen] = useState(false);
+  const [replyCounts, setReplyCounts] = useState<Record<string, number>>({});
+  // Polls (with results) for the loaded poll messages, keyed by message id
+  const [polls, setPolls] = useState<Record<string, PollData>>({});
+  const loadedPollIdsRef = useRef<Set<string>>(new Set());
+  const [pollDialogOpen, setPollDialogOpen] = useState(false);
+  const [quickReactions, setQuickReactions] = useState<string[]>(DEFAULT_QUICK_REACTIONS);
+  const [emojiPickerOpen, setEmojiPickerOpen] = useState(false);
+  const { typingUserIds, sendTyping, sendStoppedTyping } = useTypingIndicator(id, user?.id);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const [showFormatting, setShowFormatting] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [mentionSearchResults, setMentionSearchResults] = useState<MentionCandidate[]>([]);
+  // Users picked from search results who aren't in the loaded participants (username -> id)
+  const pickedMentionsRef = useRef<Map<string, string>>(new Map());
+  // First link in the composer (settled after a pause in typing) and a preview the sender removed
+  const [composerLink, setComposerLink] = useState<string | null>(null);
+  const [removedPreviewUrl, setRemovedPreviewUrl] = useState<string | null>(null);
+  // Outbox entries shown in this chat, their local preview URLs, and the ones currently being sent
+  const outboxEntriesRef = useRef<Map<string, OutboxEntry>>(new Map());
+  const previewUrlsRef = useRef<Map<string, string[]>>(new Map());
+  const deliveringIdsRef = useRef<Set<string>>(new Set());
+  const flushingRef = useRef<Promise<void> | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
+  // After jumping to an old message the timeline no longer reaches the latest message
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const hasNewerRef = useRef(false);
+  const skipAutoScrollRef = useRef(false);
+  // Quoted messages that fall outside the loaded window
+  const [replyTargets, setReplyTargets] = useState<Record<string, MessageData>>({});
   const PAGE_SIZE = 50;
 
+  const visibleMessages = useMemo(
+    () => messages.filter(m => !isMessageExpired(m, expiryClock)),
+    [messages, expiryClock]
+  );
+  const getMessageKey = useCallback((index: number) => visibleMessages[index].id, [visibleMessages]);
+  const estimateMessageSize = useCallback(
+    (index: number) => estimateMessageHeight(visibleMessages[index]),
+    [visibleMessages]
+  );
+  // Only the messages around the viewport are rendered
+  const messageList = useVirtualList({
+    count: visibleMessages.length,
+    getKey: getMessageKey,
+    estimateSize: estimateMessageSize,
+  });
+  const { scrollToEnd, scrollToKey, isAtEnd } = messageList;
+  // "N new messages" marker at the first message that was unread when the chat was opened
+  const [unreadDivider, setUnreadDivider] = useState<{ messageId: string; count: number } | null>(null);
+  // Messages from others that arrived while the user was scrolled up
+  const [missedCount, setMissedCount] = useState(0);
+
 
   const isWorldChat = id === WORLD_CHAT_ID;
+  const isOneToOne = !isWorldChat && !isGroup;
   const currentTheme = getThemeById(conversationTheme);
 
+  // Receipts: 1:1 chats show check marks, every other chat "seen by" avatars on the user's own
+  // messages. With readers sorted by read cursor, a message's readers are everyone from the
+  // first cursor at or after it, so one pass over the timeline covers all messages.
+  const seenByMessageId = useMemo(() => {
+    const seenBy: Record<string, Participant[]> = {};
+    if (isOneToOne) return seenBy;
+
+    const readers = Object.entries(readCursors)
+      .filter(([readerId]) => readerId !== user?.id && participants[readerId])
+      .map(([readerId, readAt]) => ({ participant: participants[readerId], readAt: new Date(readAt).getTime() }))
+      .sort((a, b) => a.readAt - b.readAt);
+
+    let firstReader = 0;
+    visibleMessages.forEach((message) => {
+      if (message.sender_id !== user?.id) return;
+
+      const createdAt = new Date(message.created_at).getTime();
+      while (firstReader < readers.length && readers[firstReader].readAt < createdAt) firstReader++;
+      if (firstReader < readers.length) {
+        seenBy[message.id] = readers.slice(firstReader).map(reader => reader.participant);
+      }
+    });
+    return seenBy;
+  }, [isOneToOne, readCursors, participants, visibleMessages, user?.id]);
+
   const getMediaType = (file: File): string => {
     if (file.type.startsWith('image/')) return 'image';
     if (file.type.startsWith('video/')) return 'video';
@@ -123,74 +288,214 @@ const Chat = () => {
     }
   };
 
-  const uploadFile = async (file: File): Promise<string | null> => {
-    if (!user) return null;
-    
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-    
-    const { error } = await supabase.storage
-      .from('chat-media')
-      .upload(fileName, file);
+  // Show an outbox entry in the timeline, previewing its files from local object URLs
+  const showQueuedMessage = (entry: OutboxEntry, status: MessageData['status']): MessageData => {
+    outboxEntriesRef.current.set(entry.id, entry);
 
-    if (error) {
-      console.error('Upload error:', error);
-      toast.error('Failed to upload file');
-      return null;
+    let previewUrls = previewUrlsRef.current.get(entry.id);
+    if (!previewUrls) {
+      previewUrls = entry.files.map(f => URL.createObjectURL(f.file));
+      previewUrlsRef.current.set(entry.id, previewUrls);
     }
 
-    const { data: urlData } = supabase.storage
-      .from('chat-media')
-      .getPublicUrl(fileName);
+    return toOptimisticMessage(entry, status, previewUrls);
+  };
+
+  const forgetQueuedMessage = (messageId: string) => {
+    outboxEntriesRef.current.delete(messageId);
+    previewUrlsRef.current.get(messageId)?.forEach(url => URL.revokeObjectURL(url));
+    previewUrlsRef.current.delete(messageId);
+  };
 
-    return urlData.publicUrl;
+  const setMessageStatus = (messageId: string, status: MessageData['status']) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, status } : m));
   };
 
-  const scrollToBottom = (instant = false) => {
-    if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: instant ? 'instant' : 'smooth' });
+  // Send one outbox entry; on failure it stays queued and its bubble offers a retry
+  const deliverQueuedMessage = async (entry: OutboxEntry) => {
+    if (deliveringIdsRef.current.has(entry.id)) return;
+    deliveringIdsRef.current.add(entry.id);
+    setMessageStatus(entry.id, 'pending');
+
+    try {
+      const delivered = await deliverOutboxEntry(entry);
+      forgetQueuedMessage(entry.id);
+      setMessages(prev => prev.map(m => m.id === entry.id ? delivered : m));
+    } catch (error) {
+      console.error('Error sending message:', error);
+      // Remember failures a retry won't fix so later flushes leave the entry for the user
+      const failedCode = getPermanentErrorCode(error) ?? undefined;
+      if (failedCode !== entry.failed_code) {
+        entry.failed_code = failedCode;
+        await putOutboxEntry(entry);
+      }
+      setMessageStatus(entry.id, 'failed');
+      if (navigator.onLine) {
+        toast.error('Failed to send message');
+      }
+    } finally {
+      deliveringIdsRef.current.delete(entry.id);
     }
   };
 
+  // Retry everything still queued for this user, in every conversation, in the order it was sent.
+  // Entries that already failed for good wait in their chat for the user to retry or discard them.
+  // The initial load and the "online" event can both ask for a flush; they share one run so an
+  // entry isn't read from the outbox again while an earlier flush is still sending it.
+  const flushOutbox = () => {
+    if (!user) return Promise.resolve();
+    if (flushingRef.current) return flushingRef.current;
+
+    const flush = async () => {
+      const stored = await getOutboxEntries(user.id);
+      const entries = new Map(stored.map(entry => [entry.id, entry]));
+      outboxEntriesRef.current.forEach((entry, entryId) => entries.set(entryId, entry));
+
+      for (const entry of entries.values()) {
+        if (entry.failed_code) continue;
+        await deliverQueuedMessage(entry);
+      }
+    };
+
+    flushingRef.current = flush().finally(() => {
+      flushingRef.current = null;
+    });
+    return flushingRef.current;
+  };
+
+  const handleRetryMessage = (message: MessageData) => {
+    const entry = outboxEntriesRef.current.get(message.id);
+    if (entry) deliverQueuedMessage(entry);
+  };
+
+  const handleDiscardMessage = async (message: MessageData) => {
+    await removeFromOutbox(message.id);
+    forgetQueuedMessage(message.id);
+    setMessages(prev => prev.filter(m => m.id !== message.id));
+  };
+
   const fetchMessages = async () => {
     if (!id || !user) return;
 
     // Fetch only the most recent PAGE_SIZE messages for fast initial load
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('conversation_id', id)
-      .order('created_at', { ascending: false })
-      .limit(PAGE_SIZE);
+    // Leave out anything the current user has hidden ("delete for me")
+    // The read cursor is read first because opening the chat marks everything read
+    const [{ data, error }, { data: participation }] = await Promise.all([
+      supabase
+        .from('messages')
+        .select('*, hidden_messages(id)')
+        .eq('conversation_id', id)
+        .is('hidden_messages', null)
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE),
+      supabase
+        .from('conversation_participants')
+        .select('last_read_at')
+        .eq('conversation_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle(),
+    ]);
 
     if (error) {
       console.error('Error fetching messages:', error);
       return;
     }
 
-    const ordered = (data || []).slice().reverse();
-    setMessages(ordered);
-    setHasMore((data || []).length === PAGE_SIZE);
+    let ordered: MessageData[] = stripHiddenMarker(data || []).reverse();
+    let reachesLatest = true;
+    const lastReadAt = participation?.last_read_at ? new Date(participation.last_read_at).getTime() : null;
+    const isUnread = (message: MessageData) =>
+      lastReadAt !== null &&
+      message.sender_id !== user.id &&
+      new Date(message.created_at).getTime() > lastReadAt &&
+      !isMessageExpired(message);
+    let unreadCount = ordered.filter(isUnread).length;
+
+    // The whole page is newer than the read cursor: open at the oldest unread message instead
+    if (lastReadAt !== null && ordered.length === PAGE_SIZE && new Date(ordered[0].created_at).getTime() > lastReadAt) {
+      const [{ data: unreadPage, error: unreadError }, { count }] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*, hidden_messages(id)')
+          .eq('conversation_id', id)
+          .is('hidden_messages', null)
+          .gt('created_at', participation.last_read_at)
+          .order('created_at', { ascending: true })
+          .limit(PAGE_SIZE),
+        // Counted like the timeline shows them: without hidden or expired messages
+        supabase
+          .from('messages')
+          .select('id, hidden_messages(id)', { count: 'exact', head: true })
+          .eq('conversation_id', id)
+          .is('hidden_messages', null)
+          .or(notExpiredFilter())
+          .gt('created_at', participation.last_read_at)
+          .neq('sender_id', user.id),
+      ]);
+
+      if (unreadError) {
+        console.error('Error fetching unread messages:', unreadError);
+      } else {
+        ordered = stripHiddenMarker(unreadPage || []);
+        reachesLatest = ordered.length < PAGE_SIZE;
+        unreadCount = count ?? unreadCount;
+      }
+    }
+
+    const firstUnread = ordered.find(isUnread);
+    if (firstUnread) {
+      setUnreadDivider({ messageId: firstUnread.id, count: unreadCount });
+    }
 
-    // Scroll to bottom instantly after loading messages
-    setTimeout(() => scrollToBottom(true), 50);
+    // Unsent messages from an earlier visit go back at the end of the timeline
+    const loadedIds = new Set(ordered.map((m) => m.id));
+    const queued = reachesLatest
+      ? (await getOutboxEntries(user.id)).filter(
+          (entry) => entry.conversation_id === id && !loadedIds.has(entry.id)
+        )
+      : [];
+    // Where the view starts is decided below, not by the new-message auto-scroll
+    skipAutoScrollRef.current = true;
+    setMessages([...ordered, ...queued.map((entry) => showQueuedMessage(entry, entry.failed_code ? 'failed' : 'pending'))]);
+    setHasMore(reachesLatest ? (data || []).length === PAGE_SIZE : true);
+    setHasNewer(!reachesLatest);
+
+    // Deep links (/chat/:id?message=...) open at the linked message instead of the bottom
+    const linkedMessageId = searchParams.get('message');
+    if (linkedMessageId) {
+      if (loadedIds.has(linkedMessageId)) {
+        setPendingJumpId(linkedMessageId);
+      } else {
+        jumpToMessage(linkedMessageId);
+      }
+      setSearchParams({}, { replace: true });
+    } else if (firstUnread) {
+      // Open at what's new since the last visit
+      scrollToKey(firstUnread.id);
+    } else {
+      // Start at the bottom; the message list stays there as the newest messages render
+      scrollToEnd();
+    }
 
     // Mark messages as read (via SECURITY DEFINER RPC)
     await supabase.rpc('mark_messages_read', { _conversation_id: id });
+
+    if (navigator.onLine) {
+      flushOutbox();
+    }
   };
 
   const loadOlderMessages = async () => {
     if (!id || !user || loadingMore || !hasMore || messages.length === 0) return;
-    const container = messagesContainerRef.current;
-    const previousScrollHeight = container?.scrollHeight ?? 0;
-    const previousScrollTop = container?.scrollTop ?? 0;
 
+    // The message list keeps the messages in view where they are while older ones are prepended
     setLoadingMore(true);
     const oldest = messages[0].created_at;
     const { data, error } = await supabase
       .from('messages')
-      .select('*')
+      .select('*, hidden_messages(id)')
       .eq('conversation_id', id)
+      .is('hidden_messages', null)
       .lt('created_at', oldest)
       .order('created_at', { ascending: false })
       .limit(PAGE_SIZE);
@@ -201,7 +506,7 @@ const Chat = () => {
       return;
     }
 
-    const older = (data || []).slice().reverse();
+    const older = stripHiddenMarker(data || []).reverse();
     if (older.length > 0) {
       setMessages((prev) => {
         const existing = new Set(prev.map((m) => m.id));
@@ -210,21 +515,151 @@ const Chat = () => {
       });
     }
     setHasMore((data || []).length === PAGE_SIZE);
+    setLoadingMore(false);
+  };
 
-    // Restore scroll position so the view doesn't jump
-    requestAnimationFrame(() => {
-      if (container) {
-        const newScrollHeight = container.scrollHeight;
-        container.scrollTop = previousScrollTop + (newScrollHeight - previousScrollHeight);
-      }
-      setLoadingMore(false);
-    });
+  // Replace the timeline with a page centred on one message, for jumps beyond the loaded window.
+  // Resolves false when the message doesn't exist (any more) or is hidden for this user.
+  const loadMessagesAround = async (messageId: string): Promise<boolean> => {
+    if (!id) return false;
+
+    const { data: target, error } = await supabase
+      .from('messages')
+      .select('*, hidden_messages(id)')
+      .eq('id', messageId)
+      .eq('conversation_id', id)
+      .is('hidden_messages', null)
+      .maybeSingle();
+
+    if (error || !target) {
+      if (error) console.error('Error loading message:', error);
+      return false;
+    }
+
+    const half = PAGE_SIZE / 2;
+    const [{ data: older, error: olderError }, { data: newer, error: newerError }] = await Promise.all([
+      supabase
+        .from('messages')
+        .select('*, hidden_messages(id)')
+        .eq('conversation_id', id)
+        .is('hidden_messages', null)
+        .lt('created_at', target.created_at)
+        .order('created_at', { ascending: false })
+        .limit(half),
+      supabase
+        .from('messages')
+        .select('*, hidden_messages(id)')
+        .eq('conversation_id', id)
+        .is('hidden_messages', null)
+        .gt('created_at', target.created_at)
+        .order('created_at', { ascending: true })
+        .limit(half),
+    ]);
+
+    if (olderError || newerError) {
+      console.error('Error loading messages around target:', olderError || newerError);
+      return false;
+    }
+
+    const page = [
+      ...stripHiddenMarker(older || []).reverse(),
+      ...stripHiddenMarker([target]),
+      ...stripHiddenMarker(newer || []),
+    ];
+    const loadedIds = new Set(page.map((m) => m.id));
+    skipAutoScrollRef.current = true;
+    // Unsent messages stay at the end so they can still be retried or discarded
+    setMessages((prev) => [...page, ...prev.filter((m) => m.status && !loadedIds.has(m.id))]);
+    setHasMore((older || []).length === half);
+    setHasNewer((newer || []).length === half);
+    return true;
+  };
+
+  const loadNewerMessages = async () => {
+    if (!id || loadingNewer || !hasNewer) return;
+
+    const newest = [...messages].reverse().find((m) => !m.status);
+    if (!newest) return;
+
+    setLoadingNewer(true);
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*, hidden_messages(id)')
+      .eq('conversation_id', id)
+      .is('hidden_messages', null)
+      .gt('created_at', newest.created_at)
+      .order('created_at', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      console.error('Error loading newer messages:', error);
+      setLoadingNewer(false);
+      return;
+    }
+
+    const newer = stripHiddenMarker(data || []);
+    if (newer.length > 0) {
+      // Paging down shouldn't yank the view to the bottom
+      skipAutoScrollRef.current = true;
+      setMessages((prev) => {
+        const existing = new Set(prev.map((m) => m.id));
+        // Unsent messages stay last
+        return [
+          ...prev.filter((m) => !m.status),
+          ...newer.filter((m) => !existing.has(m.id)),
+          ...prev.filter((m) => m.status),
+        ];
+      });
+    }
+    setHasNewer((data || []).length === PAGE_SIZE);
+    setLoadingNewer(false);
+  };
+
+  // Back to the newest messages, reloading them when the timeline stops short of them
+  const jumpToLatest = () => {
+    setMissedCount(0);
+    if (hasNewer) {
+      fetchMessages();
+    } else {
+      scrollToEnd(true);
+    }
   };
 
   const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
-    if (e.currentTarget.scrollTop < 80 && hasMore && !loadingMore) {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollTop < 80 && hasMore && !loadingMore) {
       loadOlderMessages();
     }
+    if (scrollHeight - scrollTop - clientHeight < 80 && hasNewer && !loadingNewer) {
+      loadNewerMessages();
+    }
+  };
+
+  // Load the quoted messages that aren't part of the loaded window
+  const fetchReplyTargets = async () => {
+    const loadedIds = new Set(messages.map(m => m.id));
+    const missingIds = [...new Set(
+      messages
+        .map(m => m.reply_to_id)
+        .filter((replyToId): replyToId is string => !!replyToId && !loadedIds.has(replyToId) && !replyTargets[replyToId])
+    )];
+    if (missingIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*, hidden_messages(id)')
+      .in('id', missingIds)
+      .is('hidden_messages', null);
+
+    if (error) {
+      console.error('Error fetching quoted messages:', error);
+      return;
+    }
+
+    setReplyTargets(prev => ({
+      ...prev,
+      ...Object.fromEntries(stripHiddenMarker(data || []).map(m => [m.id, m])),
+    }));
   };
 
   const fetchOtherUser = async () => {
@@ -246,7 +681,7 @@ const Chat = () => {
 
       if (allParticipants) {
         const participantMap: Record<string, Participant> = {};
-        allParticipants.forEach((p: any) => {
+        allParticipants.forEach((p) => {
           if (p.profiles) {
             participantMap[p.profiles.id] = p.profiles;
           }
@@ -258,6 +693,7 @@ const Chat = () => {
       return;
     }
 
+    // Both participants: the other one for the header, both for mentions
     const { data, error } = await supabase
       .from('conversation_participants')
       .select(`
@@ -270,16 +706,41 @@ const Chat = () => {
           last_seen
         )
       `)
-      .eq('conversation_id', id)
-      .neq('user_id', user.id)
-      .maybeSingle();
+      .eq('conversation_id', id);
 
     if (!error && data) {
-      setOtherUser(data.profiles as any);
+      const participantMap: Record<string, Participant> = {};
+      data.forEach((p) => {
+        if (p.profiles) {
+          participantMap[p.profiles.id] = p.profiles;
+          if (p.profiles.id !== user.id) {
+            setOtherUser(p.profiles);
+          }
+        }
+      });
+      setParticipants(participantMap);
     }
     setLoading(false);
   };
 
+  // Fetch every participant's read cursor (last_read_at)
+  const fetchReadCursors = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select('user_id, last_read_at')
+      .eq('conversation_id', id);
+
+    if (!error && data) {
+      const cursors: Record<string, string> = {};
+      data.forEach(p => {
+        cursors[p.user_id] = p.last_read_at;
+      });
+      setReadCursors(cursors);
+    }
+  };
+
   // Mark messages as read function
   const markMessagesAsRead = async () => {
     if (!id || !user) return;
@@ -292,138 +753,609 @@ const Chat = () => {
     
     const { data, error } = await supabase
       .from('conversations')
-      .select('theme')
+      .select('theme, message_ttl_seconds, is_group')
       .eq('id', id)
       .single();
     
     if (!error && data?.theme) {
       setConversationTheme(data.theme);
     }
+    setMessageTtl(data?.message_ttl_seconds ?? null);
+    setIsGroup(!!data?.is_group);
   };
 
-  // Fetch reactions for all messages
-  const fetchReactions = async () => {
-    if (!id) return;
-    
+  // The viewer's own quick-reaction row, set in account settings
+  const fetchQuickReactions = async () => {
+    if (!user) return;
+
     const { data, error } = await supabase
-      .from('message_reactions')
-      .select('*')
-      .in('message_id', messages.map(m => m.id));
-    
+      .from('profiles')
+      .select('quick_reactions')
+      .eq('id', user.id)
+      .single();
+
+    if (!error && data?.quick_reactions) {
+      setQuickReactions(data.quick_reactions);
+    }
+  };
+
+  // Fetch which messages in this conversation the user has starred
+  const fetchStarredIds = async () => {
+    if (!id || !user) return;
+
+    const { data, error } = await supabase
+      .from('starred_messages')
+      .select('message_id, messages!inner(conversation_id)')
+      .eq('user_id', user.id)
+      .eq('messages.conversation_id', id);
+
     if (!error && data) {
-      setReactions(data);
+      setStarredIds(new Set(data.map(s => s.message_id)));
     }
   };
 
-  // Update theme for conversation
-  const handleThemeChange = async (themeId: string) => {
+  // Star or unstar a message
+  const handleToggleStar = async (message: MessageData) => {
+    if (!user) return;
+
+    if (starredIds.has(message.id)) {
+      const { error } = await supabase
+        .from('starred_messages')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('message_id', message.id);
+
+      if (error) {
+        toast.error('Failed to unstar message');
+        return;
+      }
+      setStarredIds(prev => {
+        const next = new Set(prev);
+        next.delete(message.id);
+        return next;
+      });
+    } else {
+      const { error } = await supabase
+        .from('starred_messages')
+        .insert({ user_id: user.id, message_id: message.id });
+
+      if (error && error.code !== '23505') {
+        toast.error('Failed to star message');
+        return;
+      }
+      setStarredIds(prev => new Set(prev).add(message.id));
+    }
+  };
+
+  // Fetch pinned messages, newest first
+  const fetchPinnedMessages = async () => {
     if (!id) return;
-    
-    setThemeUpdating(true);
+
+    const { data, error } = await supabase
+      .from('pinned_messages')
+      .select('id, message_id, created_at, messages(id, content, sender_id, media_type)')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: false });
+
+    if (!error && data) {
+      setPinnedMessages(data);
+    }
+  };
+
+  // Check whether the current user may pin in this conversation
+  const fetchPinPermission = async () => {
+    if (!id || !user) return;
+
+    const { data } = await supabase.rpc('can_pin_messages', {
+      _conversation_id: id,
+      _user_id: user.id,
+    });
+    setCanPin(!!data);
+  };
+
+  // Pin or unpin a message
+  const handleTogglePin = async (message: MessageData) => {
+    if (!id || !user) return;
+
+    const existing = pinnedMessages.find(p => p.message_id === message.id);
+    if (existing) {
+      await handleUnpin(existing);
+      return;
+    }
+
     const { error } = await supabase
-      .from('conversations')
-      .update({ theme: themeId })
-      .eq('id', id);
-    
-    if (error) {
-      toast.error('Failed to update theme');
+      .from('pinned_messages')
+      .insert({ conversation_id: id, message_id: message.id, pinned_by: user.id });
+
+    if (error && error.code !== '23505') {
+      toast.error('Failed to pin message');
     } else {
-      setConversationTheme(themeId);
-      setThemePickerOpen(false);
+      fetchPinnedMessages();
     }
-    setThemeUpdating(false);
   };
 
-  // Delete message (soft delete)
-  const handleDeleteMessage = async (messageId: string) => {
+  const handleUnpin = async (pin: PinnedMessage) => {
     const { error } = await supabase
-      .from('messages')
-      .update({ deleted_at: new Date().toISOString() })
-      .eq('id', messageId)
-      .eq('sender_id', user?.id);
-    
+      .from('pinned_messages')
+      .delete()
+      .eq('id', pin.id);
+
     if (error) {
-      toast.error('Failed to delete message');
+      toast.error('Failed to unpin message');
     } else {
-      setMessages(prev => prev.map(m => 
-        m.id === messageId ? { ...m, deleted_at: new Date().toISOString() } : m
-      ));
+      setPinnedMessages(prev => prev.filter(p => p.id !== pin.id));
     }
   };
 
-  // Add reaction
-  const handleAddReaction = async (messageId: string, emoji: string) => {
-    if (!user) return;
-    
+  // Scroll to a message, first reloading the timeline around it when it isn't loaded
+  const jumpToMessage = async (messageId: string) => {
+    if (!messages.some(m => m.id === messageId) && !(await loadMessagesAround(messageId))) {
+      toast.error('Message is no longer available');
+      return;
+    }
+    setPendingJumpId(messageId);
+  };
+
+  // Fetch grouped reactions for messages that haven't been loaded yet
+  const fetchReactionSummaries = async () => {
+    const messageIds = messages
+      .filter(m => !m.status && !loadedReactionIdsRef.current.has(m.id))
+      .map(m => m.id);
+    if (messageIds.length === 0) return;
+
+    messageIds.forEach(messageId => loadedReactionIdsRef.current.add(messageId));
+
     const { data, error } = await supabase
-      .from('message_reactions')
-      .insert({ message_id: messageId, user_id: user.id, emoji })
-      .select()
-      .single();
-    
+      .rpc('get_reaction_summaries', { _message_ids: messageIds });
+
     if (error) {
-      if (error.code === '23505') {
-        // Already reacted with this emoji, ignore
-        return;
-      }
-      toast.error('Failed to add reaction');
-    } else if (data) {
-      setReactions(prev => [...prev, data]);
+      console.error('Error fetching reactions:', error);
+      messageIds.forEach(messageId => loadedReactionIdsRef.current.delete(messageId));
+      return;
     }
+
+    const grouped: Record<string, ReactionSummary[]> = {};
+    (data || []).forEach(({ message_id, ...summary }) => {
+      (grouped[message_id] ||= []).push(summary);
+    });
+    setReactionSummaries(prev => ({ ...prev, ...grouped }));
   };
 
-  // Remove reaction
-  const handleRemoveReaction = async (messageId: string, emoji: string) => {
+  // Apply a reaction added or removed here, or relayed from the server
+  const handleReactionChange = (reaction: ReactionChange, change: 'added' | 'removed') => {
     if (!user) return;
-    
-    const { error } = await supabase
+
+    if (loadedReactionIdsRef.current.has(reaction.message_id)) {
+      setReactionSummaries(prev => ({
+        ...prev,
+        [reaction.message_id]: applyReactionChange(prev[reaction.message_id] || [], reaction, change, user.id),
+      }));
+    }
+
+    if (reactionsMessageIdRef.current !== reaction.message_id) return;
+    setSheetReactions(prev => {
+      if (change === 'removed') {
+        return prev.filter(r => !(r.user_id === reaction.user_id && r.emoji === reaction.emoji));
+      }
+      const added = reaction as Reaction;
+      return prev.some(r => r.id === added.id) ? prev : [...prev, added];
+    });
+  };
+
+  // Open the reactions sheet; summaries only name a few reactors, so load every row
+  const openReactionsSheet = async (messageId: string) => {
+    reactionsMessageIdRef.current = messageId;
+    setReactionsMessageId(messageId);
+    setSheetReactions([]);
+
+    const { data, error } = await supabase
       .from('message_reactions')
-      .delete()
+      .select('*')
       .eq('message_id', messageId)
-      .eq('user_id', user.id)
-      .eq('emoji', emoji);
-    
+      .order('created_at', { ascending: true });
+
     if (error) {
-      toast.error('Failed to remove reaction');
-    } else {
-      setReactions(prev => prev.filter(r => 
-        !(r.message_id === messageId && r.user_id === user.id && r.emoji === emoji)
-      ));
+      console.error('Error fetching reactions:', error);
+      return;
+    }
+    if (reactionsMessageIdRef.current === messageId) {
+      setSheetReactions(data || []);
     }
   };
 
-  // Set message to reply to
-  const handleReply = (message: MessageData) => {
-    setReplyingTo(message);
+  const closeReactionsSheet = () => {
+    reactionsMessageIdRef.current = null;
+    setReactionsMessageId(null);
+    setSheetReactions([]);
   };
 
-  useEffect(() => {
-    if (!id || !user) return;
-    fetchMessages();
-    fetchOtherUser();
-    fetchConversationTheme();
+  // Fetch how many replies each loaded message's thread has
+  const fetchReplyCounts = async () => {
+    const rootIds = messages.filter(m => !m.status).map(m => m.id);
+    if (rootIds.length === 0) return;
 
-    // Subscribe to realtime messages
-    const messagesChannel = supabase
-      .channel(`messages-${id}-${user.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${id}`,
-        },
-        async (payload) => {
-          const newMsg = payload.new as MessageData;
-          setMessages((prev) => {
-            if (prev.some((m) => m.id === newMsg.id)) return prev;
+    const { data, error } = await supabase
+      .rpc('get_thread_reply_counts', { _root_ids: rootIds });
+
+    if (error) {
+      console.error('Error fetching reply counts:', error);
+      return;
+    }
+
+    setReplyCounts(Object.fromEntries((data || []).map(row => [row.root_id, row.reply_count])));
+  };
+
+  const fetchPollResults = async (messageIds: string[]) => {
+    if (!user) return;
+
+    const loaded = await fetchPolls(messageIds, user.id);
+    setPolls((prev) => ({ ...prev, ...loaded }));
+  };
+
+  const handleCreatePoll = async (
+    question: string,
+    options: string[],
+    allowsMultiple: boolean,
+    isAnonymous: boolean
+  ) => {
+    if (!id) return;
+
+    const { error } = await supabase.rpc('create_poll', {
+      _conversation_id: id,
+      _question: question,
+      _options: options,
+      _allows_multiple: allowsMultiple,
+      _is_anonymous: isAnonymous,
+    });
+
+    if (error) {
+      console.error('Error creating poll:', error);
+      toast.error('Failed to create poll');
+      return;
+    }
+
+    setPollDialogOpen(false);
+  };
+
+  const handleVote = async (messageId: string, optionIndexes: number[]) => {
+    const { error } = await supabase.rpc('vote_in_poll', {
+      _message_id: messageId,
+      _option_indexes: optionIndexes,
+    });
+
+    if (error) {
+      console.error('Error voting in poll:', error);
+      toast.error(error.code === '22023' ? error.message : 'Failed to vote');
+      return;
+    }
+
+    fetchPollResults([messageId]);
+  };
+
+  const handleClosePoll = async (messageId: string) => {
+    const { error } = await supabase.rpc('close_poll', { _message_id: messageId });
+
+    if (error) {
+      console.error('Error closing poll:', error);
+      toast.error('Failed to close poll');
+      return;
+    }
+
+    fetchPollResults([messageId]);
+  };
+
+  const fetchScheduledMessages = async () => {
+    if (!id || !user) return;
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .select('*')
+      .eq('conversation_id', id)
+      .eq('sender_id', user.id)
+      .order('send_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scheduled messages:', error);
+      return;
+    }
+    setScheduledMessages(data || []);
+  };
+
+  const handleScheduleMessage = async (content: string, sendAt: Date) => {
+    if (!id || !user) return;
+
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        conversation_id: id,
+        sender_id: user.id,
+        content,
+        mentions: resolveMentions(content),
+        send_at: sendAt.toISOString(),
+      });
+
+    if (error) {
+      console.error('Error scheduling message:', error);
+      toast.error('Failed to schedule message');
+      return;
+    }
+
+    toast.success(`Message scheduled for ${format(sendAt, 'MMM d, h:mm a')}`);
+    setScheduleDialogOpen(false);
+    setNewMessage('');
+    sendStoppedTyping();
+    fetchScheduledMessages();
+  };
+
+  const handleUpdateScheduledMessage = async (
+    scheduled: Tables<'scheduled_messages'>,
+    content: string,
+    sendAt: Date
+  ) => {
+    const { data: updated, error } = await supabase
+      .from('scheduled_messages')
+      .update({
+        content,
+        mentions: resolveMentions(content),
+        send_at: sendAt.toISOString(),
+      })
+      .eq('id', scheduled.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating scheduled message:', error);
+      toast.error('Failed to update scheduled message');
+      return;
+    }
+    // No row left to update: the job delivered it while it was being edited
+    if (!updated || updated.length === 0) {
+      toast.error('This message has already been sent');
+    }
+    fetchScheduledMessages();
+  };
+
+  const handleCancelScheduledMessage = async (scheduled: Tables<'scheduled_messages'>) => {
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .delete()
+      .eq('id', scheduled.id);
+
+    if (error) {
+      console.error('Error cancelling scheduled message:', error);
+      toast.error('Failed to cancel scheduled message');
+      return;
+    }
+    setScheduledMessages(prev => prev.filter(m => m.id !== scheduled.id));
+  };
+
+  const handleOpenThread = (message: MessageData) => {
+    setThreadRootId(message.thread_root_id ?? message.id);
+  };
+
+  // Update theme for conversation
+  const handleThemeChange = async (themeId: string) => {
+    if (!id) return;
+    
+    setThemeUpdating(true);
+    const { error } = await supabase
+      .from('conversations')
+      .update({ theme: themeId })
+      .eq('id', id);
+    
+    if (error) {
+      toast.error('Failed to update theme');
+    } else {
+      setConversationTheme(themeId);
+      setThemePickerOpen(false);
+    }
+    setThemeUpdating(false);
+  };
+
+  const handleMessageTtlChange = async (ttlSeconds: number | null) => {
+    if (!id || ttlSeconds === messageTtl) return;
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ message_ttl_seconds: ttlSeconds })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating disappearing messages:', error);
+      toast.error('Failed to update disappearing messages');
+    } else {
+      setMessageTtl(ttlSeconds);
+    }
+  };
+
+  // Delete message for everyone (soft delete, sender only, within the time window)
+  const handleDeleteForEveryone = async (messageId: string) => {
+    const { error } = await supabase
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .eq('sender_id', user?.id);
+    
+    if (error) {
+      toast.error(
+        error.message.includes('delete_window_expired')
+          ? 'This message is too old to delete for everyone'
+          : 'Failed to delete message'
+      );
+    } else {
+      setMessages(prev => prev.map(m => 
+        m.id === messageId ? { ...m, deleted_at: new Date().toISOString() } : m
+      ));
+    }
+  };
+
+  // Delete message for me (hide it from the current user's view only)
+  const handleDeleteForMe = async (messageId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('hidden_messages')
+      .insert({ message_id: messageId, user_id: user.id });
+
+    if (error && error.code !== '23505') {
+      toast.error('Failed to delete message');
+    } else {
+      setMessages(prev => prev.filter(m => m.id !== messageId));
+      if (replyingTo?.id === messageId) setReplyingTo(null);
+      if (editingMessage?.id === messageId) cancelEdit();
+    }
+  };
+
+  // Add reaction
+  const handleAddReaction = async (messageId: string, emoji: string) => {
+    if (!user) return;
+    
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .insert({ message_id: messageId, user_id: user.id, emoji })
+      .select()
+      .single();
+    
+    if (error) {
+      if (error.code === '23505') {
+        // Already reacted with this emoji, ignore
+        return;
+      }
+      toast.error('Failed to add reaction');
+    } else if (data) {
+      handleReactionChange(data, 'added');
+    }
+  };
+
+  // Remove reaction
+  const handleRemoveReaction = async (messageId: string, emoji: string) => {
+    if (!user) return;
+    
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', user.id)
+      .eq('emoji', emoji);
+    
+    if (error) {
+      toast.error('Failed to remove reaction');
+    } else {
+      handleReactionChange({ message_id: messageId, user_id: user.id, emoji }, 'removed');
+    }
+  };
+
+  // Set message to reply to
+  const handleReply = (message: MessageData) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  // Load a message into the composer for editing
+  const handleStartEdit = (message: MessageData) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  // Save an edit; other clients pick it up through the UPDATE subscription
+  const saveEditedMessage = async (message: MessageData, content: string) => {
+    if (content === message.content) {
+      cancelEdit();
+      return;
+    }
+
+    setSending(true);
+    const { data: updated, error } = await supabase
+      .from('messages')
+      .update({
+        content,
+        mentions: resolveMentions(content),
+        // Drop the preview card when its link was edited out
+        link_preview_url: getLinks(content).map(normalizeLinkUrl).includes(message.link_preview_url ?? null)
+          ? message.link_preview_url
+          : null,
+      })
+      .eq('id', message.id)
+      .eq('sender_id', user?.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast.error('Failed to edit message');
+    } else if (updated) {
+      setMessages(prev => prev.map(m => m.id === updated.id ? updated as MessageData : m));
+      cancelEdit();
+    }
+    setSending(false);
+  };
+
+  // Subscriptions are set up once per conversation; their handlers call the latest render's
+  // functions through this ref rather than re-subscribing whenever those are recreated
+  const currentUserId = user?.id;
+  const latest = {
+    fetchMessages,
+    fetchOtherUser,
+    fetchReadCursors,
+    fetchConversationTheme,
+    fetchPinnedMessages,
+    fetchPinPermission,
+    fetchStarredIds,
+    fetchScheduledMessages,
+    fetchQuickReactions,
+    markMessagesAsRead,
+    handleReactionChange,
+    fetchPollResults,
+    flushOutbox,
+    fetchReactionSummaries,
+    fetchReplyCounts,
+    fetchReplyTargets,
+  };
+  const latestRef = useRef(latest);
+  latestRef.current = latest;
+
+  useEffect(() => {
+    if (!id || !currentUserId) return;
+    latestRef.current.fetchMessages();
+    latestRef.current.fetchOtherUser();
+    latestRef.current.fetchReadCursors();
+    latestRef.current.fetchConversationTheme();
+    latestRef.current.fetchPinnedMessages();
+    latestRef.current.fetchPinPermission();
+    latestRef.current.fetchStarredIds();
+    latestRef.current.fetchScheduledMessages();
+    latestRef.current.fetchQuickReactions();
+
+    // Subscribe to realtime messages
+    const messagesChannel = supabase
+      .channel(`messages-${id}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${id}`,
+        },
+        async (payload) => {
+          const newMsg = payload.new as MessageData;
+          // Viewing an older stretch of history: new messages arrive when paging back down
+          if (hasNewerRef.current) return;
+          setMessages((prev) => {
+            // Our own queued message echoing back replaces its optimistic copy
+            if (prev.some((m) => m.id === newMsg.id)) {
+              return prev.map((m) => m.id === newMsg.id ? newMsg : m);
+            }
             return [...prev, newMsg];
           });
 
           // If the new message is from someone else, mark it as read immediately
-          if (newMsg.sender_id !== user?.id) {
-            await markMessagesAsRead();
+          if (newMsg.sender_id !== currentUserId) {
+            await latestRef.current.markMessagesAsRead();
           }
         }
       )
@@ -438,15 +1370,40 @@ const Chat = () => {
         (payload) => {
           const updatedMsg = payload.new as MessageData;
           setMessages((prev) => prev.map(m => m.id === updatedMsg.id ? updatedMsg : m));
+          setReplyTargets((prev) => prev[updatedMsg.id] ? { ...prev, [updatedMsg.id]: updatedMsg } : prev);
         }
       )
       .subscribe((status) => {
         console.log(`[Realtime] messages-${id} status:`, status);
       });
 
+    // Retry queued messages as soon as the connection comes back
+    const handleOnline = () => {
+      latestRef.current.flushOutbox();
+    };
+    window.addEventListener('online', handleOnline);
+
+    // Subscribe to read cursor changes for receipts
+    const readCursorsChannel = supabase
+      .channel(`read-cursors-${id}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${id}`,
+        },
+        (payload) => {
+          const updated = payload.new as { user_id: string; last_read_at: string };
+          setReadCursors((prev) => ({ ...prev, [updated.user_id]: updated.last_read_at }));
+        }
+      )
+      .subscribe();
+
     // Subscribe to conversation theme changes for real-time sync
     const themeChannel = supabase
-      .channel(`conversation-theme-${id}-${user.id}`)
+      .channel(`conversation-theme-${id}-${currentUserId}`)
       .on(
         'postgres_changes',
         {
@@ -456,67 +1413,397 @@ const Chat = () => {
           filter: `id=eq.${id}`,
         },
         (payload) => {
-          const updated = payload.new as { theme?: string };
+          const updated = payload.new as { theme?: string; message_ttl_seconds?: number | null };
           if (updated.theme) {
             setConversationTheme(updated.theme);
           }
+          setMessageTtl(updated.message_ttl_seconds ?? null);
         }
       )
       .subscribe();
 
-    // Subscribe to reactions changes
+    // Reactions are relayed by relay_reaction_change on the conversation's private topic,
+    // so unlike the other channels the name must be exactly "reactions:<id>"
     const reactionsChannel = supabase
-      .channel(`reactions-${id}-${user.id}`)
+      .channel(`reactions:${id}`, { config: { private: true } })
+      .on('broadcast', { event: 'reaction_added' }, ({ payload }) =>
+        latestRef.current.handleReactionChange(payload as Reaction, 'added')
+      )
+      .on('broadcast', { event: 'reaction_removed' }, ({ payload }) =>
+        latestRef.current.handleReactionChange(payload as Reaction, 'removed')
+      )
+      .subscribe();
+
+    // Subscribe to pin changes. DELETE events can't be filtered by conversation,
+    // so they are matched against the pins we already hold.
+    const pinsChannel = supabase
+      .channel(`pins-${id}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'pinned_messages',
+          filter: `conversation_id=eq.${id}`,
+        },
+        () => latestRef.current.fetchPinnedMessages()
+      )
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'DELETE',
           schema: 'public',
-          table: 'message_reactions',
+          table: 'pinned_messages',
         },
         (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const newReaction = payload.new as Reaction;
-            setReactions((prev) => {
-              if (prev.some((r) => r.id === newReaction.id)) return prev;
-              return [...prev, newReaction];
-            });
-          } else if (payload.eventType === 'DELETE') {
-            const oldReaction = payload.old as Reaction;
-            setReactions((prev) => prev.filter(r => r.id !== oldReaction.id));
-          }
+          const oldPin = payload.old as { id: string };
+          setPinnedMessages((prev) => prev.filter(p => p.id !== oldPin.id));
+        }
+      )
+      .subscribe();
+
+    // Votes bump polls.votes_updated_at, so one UPDATE feed covers new votes and closing
+    const pollsChannel = supabase
+      .channel(`polls-${id}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'polls',
+          filter: `conversation_id=eq.${id}`,
+        },
+        (payload) => {
+          const updated = payload.new as { message_id: string };
+          latestRef.current.fetchPollResults([updated.message_id]);
+        }
+      )
+      .subscribe();
+
+    // Scheduled messages disappear from the list once the job posts them. DELETE events
+    // can't be filtered, so they are matched against the scheduled messages we hold.
+    const scheduledChannel = supabase
+      .channel(`scheduled-${id}-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'scheduled_messages',
+          filter: `sender_id=eq.${currentUserId}`,
+        },
+        () => latestRef.current.fetchScheduledMessages()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'scheduled_messages',
+          filter: `sender_id=eq.${currentUserId}`,
+        },
+        () => latestRef.current.fetchScheduledMessages()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'scheduled_messages',
+        },
+        (payload) => {
+          const removed = payload.old as { id: string };
+          setScheduledMessages((prev) => prev.filter(m => m.id !== removed.id));
         }
       )
       .subscribe();
 
     return () => {
       supabase.removeChannel(messagesChannel);
+      supabase.removeChannel(scheduledChannel);
       supabase.removeChannel(themeChannel);
       supabase.removeChannel(reactionsChannel);
+      supabase.removeChannel(pinsChannel);
+      supabase.removeChannel(pollsChannel);
+      supabase.removeChannel(readCursorsChannel);
+      window.removeEventListener('online', handleOnline);
     };
-  }, [id, user?.id]);
+  }, [id, currentUserId]);
 
 
-  // Fetch reactions when messages change
+  // Fetch reactions, thread reply counts and quoted messages when the loaded messages change
+  const loadedMessagesKey = messages
+    .filter(m => !m.status)
+    .map(m => m.id)
+    .join(',');
   useEffect(() => {
-    if (messages.length > 0) {
-      fetchReactions();
-    }
-  }, [messages.length]);
+    if (!loadedMessagesKey) return;
+    latestRef.current.fetchReactionSummaries();
+    latestRef.current.fetchReplyCounts();
+    latestRef.current.fetchReplyTargets();
+  }, [loadedMessagesKey]);
+
+  // Load results for poll messages as they enter the timeline
+  const pollIdsKey = messages
+    .filter(m => m.media_type === 'poll' && !m.status)
+    .map(m => m.id)
+    .join(',');
+  useEffect(() => {
+    const userId = user?.id;
+    if (!pollIdsKey || !userId) return;
+
+    const pollIds = pollIdsKey.split(',').filter(pollId => !loadedPollIdsRef.current.has(pollId));
+    pollIds.forEach(pollId => loadedPollIdsRef.current.add(pollId));
+    fetchPolls(pollIds, userId).then((loaded) => {
+      setPolls((prev) => ({ ...prev, ...loaded }));
+    });
+  }, [pollIdsKey, user?.id]);
 
-  // Auto-scroll when new messages arrive
+  useEffect(() => {
+    hasNewerRef.current = hasNewer;
+  }, [hasNewer]);
+
+  // Close an open thread, search or reaction list when switching conversations
+  useEffect(() => {
+    setThreadRootId(null);
+    setSearchOpen(false);
+    reactionsMessageIdRef.current = null;
+    setReactionsMessageId(null);
+    setSheetReactions([]);
+    loadedReactionIdsRef.current = new Set();
+    setReactionSummaries({});
+    loadedPollIdsRef.current = new Set();
+    setPolls({});
+    setUnreadDivider(null);
+    setMissedCount(0);
+  }, [id]);
+
+  // When new messages arrive (not when older pages are prepended), follow our own down. Others'
+  // stay in view while at the bottom; scrolled up, they're counted on the jump-to-latest button.
   const prevMessagesCount = useRef(messages.length);
+  const prevLastMessageId = useRef<string | null>(null);
   useEffect(() => {
-    if (messages.length > prevMessagesCount.current) {
-      // New message arrived - smooth scroll
-      scrollToBottom(false);
+    const lastId = messages[messages.length - 1]?.id ?? null;
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false;
+    } else if (messages.length > prevMessagesCount.current && lastId !== prevLastMessageId.current) {
+      const previousIndex = messages.findIndex(m => m.id === prevLastMessageId.current);
+      const arrived = previousIndex === -1 ? messages.slice(-1) : messages.slice(previousIndex + 1);
+      if (arrived.some(m => m.sender_id === user?.id)) {
+        scrollToEnd(true);
+      } else if (!isAtEnd) {
+        setMissedCount(count => count + arrived.length);
+      }
     }
     prevMessagesCount.current = messages.length;
-  }, [messages]);
+    prevLastMessageId.current = lastId;
+  }, [messages, scrollToEnd, isAtEnd, user?.id]);
+
+  useEffect(() => {
+    if (isAtEnd) setMissedCount(0);
+  }, [isAtEnd]);
+
+  // Scroll to a jump target once it is in the timeline (jumpToMessage loads it when needed)
+  useEffect(() => {
+    if (!pendingJumpId || !messages.some(m => m.id === pendingJumpId)) return;
+
+    if (visibleMessages.some(m => m.id === pendingJumpId)) {
+      scrollToKey(pendingJumpId);
+      setHighlightedMessageId(pendingJumpId);
+    } else {
+      // Loaded, but its disappearing-message timer has run out
+      toast.error('Message is no longer available');
+    }
+    setPendingJumpId(null);
+  }, [pendingJumpId, messages, visibleMessages, scrollToKey]);
+
+  // World Chat: look beyond the loaded participants for people to mention
+  useEffect(() => {
+    if (!isWorldChat || !mentionQuery?.query) {
+      setMentionSearchResults([]);
+      return;
+    }
+
+    const searchMentions = async () => {
+      const { data, error } = await supabase
+        .rpc('search_users', { search_query: mentionQuery.query });
+
+      if (error) {
+        console.error('Mention search error:', error);
+        setMentionSearchResults([]);
+      } else {
+        setMentionSearchResults(data || []);
+      }
+    };
+
+    const debounce = setTimeout(searchMentions, 300);
+    return () => clearTimeout(debounce);
+  }, [mentionQuery?.query, isWorldChat]);
+
+  // Unfurl the first link once the user pauses typing
+  useEffect(() => {
+    const link = normalizeLinkUrl(getLinks(newMessage)[0] ?? '');
+    const timeout = setTimeout(() => setComposerLink(link), 600);
+    return () => clearTimeout(timeout);
+  }, [newMessage]);
+
+  // Grow the composer with its content, up to its max height
+  useEffect(() => {
+    const composer = composerRef.current;
+    if (!composer) return;
+    composer.style.height = 'auto';
+    composer.style.height = `${composer.scrollHeight}px`;
+  }, [newMessage]);
+
+  // Re-render when the next loaded message expires
+  useEffect(() => {
+    const nextExpiry = Math.min(
+      ...messages
+        .filter(m => m.expires_at && !isMessageExpired(m, expiryClock))
+        .map(m => new Date(m.expires_at as string).getTime())
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+
+    // setTimeout can't wait longer than ~24.8 days; check again then
+    const delay = Math.min(nextExpiry - Date.now() + 50, 2 ** 31 - 1);
+    const timeout = setTimeout(() => setExpiryClock(Date.now()), Math.max(delay, 0));
+    return () => clearTimeout(timeout);
+  }, [messages, expiryClock]);
+
+  // Fade the jump highlight out after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Map the @usernames written in a message to user ids (participants plus users picked from search)
+  const resolveMentions = (content: string): string[] => {
+    const idsByUsername = new Map(pickedMentionsRef.current);
+    Object.values(participants).forEach(p => {
+      if (p.username) idsByUsername.set(p.username.toLowerCase(), p.id);
+    });
+
+    return getMentionedUsernames(content)
+      .map(username => idsByUsername.get(username))
+      .filter((userId): userId is string => !!userId && userId !== user?.id);
+  };
+
+  // Turn the composer contents into outbox entries: all images go into one bubble (a gallery
+  // when there are several), every other file gets its own bubble, and the text becomes the
+  // caption of the first bubble
+  const buildOutboxEntries = (
+    content: string,
+    files: SelectedFileInfo[],
+    replyToId: string | null
+  ): OutboxEntry[] => {
+    if (!user || !id) return [];
+
+    const now = Date.now();
+    const images = files.filter(f => getMediaType(f.file) === 'image');
+    const others = files.filter(f => getMediaType(f.file) !== 'image');
+    const drafts: Array<Pick<OutboxEntry, 'content' | 'media_type' | 'files'>> = [];
+
+    if (images.length > 0) {
+      drafts.push({
+        content: content || (images.length > 1 ? '📷 Photos' : '📷 Photo'),
+        media_type: images.length > 1 ? 'gallery' : 'image',
+        files: images.map(f => ({ file: f.file })),
+      });
+    }
+
+    others.forEach((f) => {
+      const mediaType = getMediaType(f.file);
+      const fallbackLabel = mediaType === 'video' ? '🎥 Video' : `📎 ${f.file.name}`;
+      drafts.push({
+        content: drafts.length === 0 && content ? content : fallbackLabel,
+        media_type: mediaType,
+        files: [{ file: f.file }],
+      });
+    });
+
+    if (drafts.length === 0 && content) {
+      drafts.push({ content, media_type: null, files: [] });
+    }
+
+    return drafts.map((draft, i) => ({
+      ...draft,
+      id: crypto.randomUUID(),
+      mentions: resolveMentions(draft.content),
+      // Attached after sending, once the link has unfurled (see attachLinkPreview)
+      link_preview_url: null,
+      conversation_id: id,
+      sender_id: user.id,
+      reply_to_id: i === 0 ? replyToId : null,
+      // Keep bubbles from one send in order
+      created_at: new Date(now + i).toISOString(),
+    }));
+  };
+
+  // Queue first so nothing is lost if the tab closes mid-send, then show the bubbles right away
+  const queueAndDeliver = async (entries: OutboxEntry[]) => {
+    // Sending from an older stretch of history goes back to the latest messages first
+    if (hasNewer) {
+      await fetchMessages();
+    }
+
+    for (const entry of entries) {
+      await putOutboxEntry(entry);
+    }
+    setMessages(prev => [...prev, ...entries.map(entry => showQueuedMessage(entry, 'pending'))]);
+    setSending(false);
+
+    // Offline messages stay pending until the "online" event flushes the outbox
+    if (!navigator.onLine) return;
+
+    for (const entry of entries) {
+      await deliverQueuedMessage(entry);
+    }
+  };
+
+  // Sending never waits for an unfurl: the preview is added to the message once it has loaded,
+  // and only if it actually unfurled
+  const attachLinkPreview = async (messageId: string, url: string) => {
+    const preview = await loadLinkPreview(url, { unfurl: true });
+    if (!preview) return;
+
+    const queued = outboxEntriesRef.current.get(messageId);
+    if (queued && !deliveringIdsRef.current.has(messageId)) {
+      // Still waiting in the outbox: it goes out with the preview
+      const withPreview = { ...queued, link_preview_url: url };
+      outboxEntriesRef.current.set(messageId, withPreview);
+      await putOutboxEntry(withPreview);
+    } else {
+      const { error } = await supabase
+        .from('messages')
+        .update({ link_preview_url: url })
+        .eq('id', messageId)
+        .eq('sender_id', user?.id);
+
+      if (error) {
+        console.error('Error attaching link preview:', error);
+        return;
+      }
+    }
+
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, link_preview_url: url } : m));
+  };
+
+  // Replies written in the thread panel answer the thread's root message
+  const sendThreadReply = async (content: string) => {
+    if (!threadRootId || !user || !id) return;
+
+    if (content.length > 10000) {
+      toast.error('Message too long (max 10,000 characters)');
+      return;
+    }
+
+    await queueAndDeliver(buildOutboxEntries(content, [], threadRootId));
+  };
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!newMessage.trim() && selectedFiles.length === 0) || !user || !id || sending || uploading) return;
+    if ((!newMessage.trim() && selectedFiles.length === 0) || !user || !id || sending) return;
 
     const messageContent = newMessage.trim();
     if (messageContent.length > 10000) {
@@ -524,139 +1811,183 @@ const Chat = () => {
       return;
     }
 
+    if (editingMessage) {
+      if (!messageContent) {
+        toast.error('Message cannot be empty');
+        return;
+      }
+      await saveEditedMessage(editingMessage, messageContent);
+      return;
+    }
+
     setSending(true);
-    const currentReplyToId = replyingTo?.id || null;
+    sendStoppedTyping();
+
+    const linkToPreview = normalizeLinkUrl(getLinks(messageContent)[0] ?? '');
+    const keepPreview = !!linkToPreview && linkToPreview !== removedPreviewUrl;
+
+    const entries = buildOutboxEntries(messageContent, selectedFiles, replyingTo?.id || null);
+    setRemovedPreviewUrl(null);
     setNewMessage('');
     setReplyingTo(null);
+    clearSelectedFiles();
 
-    // If there are files to upload
-    if (selectedFiles.length > 0) {
-      setUploading(true);
-      setUploadProgress(0);
+    await queueAndDeliver(entries);
 
-      const totalFiles = selectedFiles.length;
-      let uploadedCount = 0;
+    // The preview belongs to the bubble carrying the typed text
+    const captioned = entries.find(entry => entry.content === messageContent);
+    if (keepPreview && captioned) {
+      attachLinkPreview(captioned.id, linkToPreview);
+    }
+  };
 
-      const imageUrls: string[] = [];
-      const otherUploads: Array<{ url: string; type: string }> = [];
+  const sendVoiceMessage = async (file: File, metadata: VoiceNoteMetadata) => {
+    if (!user || !id) return;
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      conversation_id: id,
+      sender_id: user.id,
+      content: VOICE_NOTE_LABEL,
+      reply_to_id: replyingTo?.id || null,
+      mentions: [],
+      link_preview_url: null,
+      media_type: 'audio',
+      media_metadata: metadata,
+      created_at: new Date().toISOString(),
+      files: [{ file }],
+    };
+    setReplyingTo(null);
 
-      for (const fileInfo of selectedFiles) {
-        try {
-          let fileToUpload = fileInfo.file;
+    await queueAndDeliver([entry]);
+  };
 
-          if (fileInfo.file.type.startsWith('image/')) {
-            fileToUpload = await compressImage(fileInfo.file, {
-              maxWidth: 1280,
-              maxHeight: 1280,
-              quality: 0.8,
-              outputType: 'image/jpeg',
-            });
-          }
+  // "You set disappearing messages to 24 hours", "Ana turned off disappearing messages"
+  const describeSystemEvent = (message: MessageData): string => {
+    const actor = message.sender_id === user?.id
+      ? 'You'
+      : participants[message.sender_id]?.full_name || participants[message.sender_id]?.username || 'Someone';
+    const event = message.system_event as { type?: string; ttl_seconds?: number | null };
+
+    if (event?.type === 'message_ttl') {
+      const option = MESSAGE_TTL_OPTIONS.find(o => o.seconds === event.ttl_seconds);
+      return option
+        ? `${actor} set disappearing messages to ${option.label}`
+        : `${actor} turned off disappearing messages`;
+    }
+    return message.content;
+  };
 
-          const mediaUrl = await uploadFile(fileToUpload);
-          const mediaType = getMediaType(fileInfo.file);
+  const typingNames = typingUserIds.map(typistId => {
+    // Group chats can have any member typing; a 1:1 chat falls back to the header's other user
+    const typist = participants[typistId] ?? (isOneToOne && otherUser?.id === typistId ? otherUser : null);
+    return typist?.full_name || typist?.username || 'Someone';
+  });
 
-          if (mediaUrl) {
-            if (mediaType === 'image') imageUrls.push(mediaUrl);
-            else otherUploads.push({ url: mediaUrl, type: mediaType });
-          }
+  const handleComposerChange = (value: string, caret?: number) => {
+    setNewMessage(value);
 
-          uploadedCount++;
-          setUploadProgress(Math.round((uploadedCount / totalFiles) * 100));
-        } catch (error) {
-          console.error('Upload error:', error);
-          toast.error(`Failed to upload ${fileInfo.file.name}`);
-        }
-      }
+    const query = caret === undefined ? null : getActiveMentionQuery(value, caret);
+    setMentionQuery(query);
+    if (!query) setMentionIndex(0);
 
-      try {
-        const usesCaptionForMedia = messageContent.length > 0;
-
-        // Images: send as a single bubble (gallery) when multiple
-        if (imageUrls.length > 1) {
-          await supabase.from('messages').insert({
-            conversation_id: id,
-            sender_id: user.id,
-            content: usesCaptionForMedia ? messageContent : '📷 Photos',
-            media_type: 'gallery',
-            media_url: JSON.stringify(imageUrls),
-            reply_to_id: currentReplyToId,
-          });
-        } else if (imageUrls.length === 1) {
-          await supabase.from('messages').insert({
-            conversation_id: id,
-            sender_id: user.id,
-            content: usesCaptionForMedia ? messageContent : '📷 Photo',
-            media_type: 'image',
-            media_url: imageUrls[0],
-            reply_to_id: currentReplyToId,
-          });
-        }
+    if (editingMessage) return;
 
-        // Non-images: send one bubble per file (caption only if we didn't use it on images)
-        for (let i = 0; i < otherUploads.length; i++) {
-          const u = otherUploads[i];
-          const shouldUseCaption = messageContent.length > 0 && imageUrls.length === 0 && i === 0;
+    if (value.trim()) {
+      sendTyping();
+    } else {
+      sendStoppedTyping();
+    }
+  };
 
-          const originalFile = selectedFiles.find(f => {
-            const mt = getMediaType(f.file);
-            return mt === u.type;
-          });
-          const originalName = originalFile?.file.name || 'File';
-          const fallbackLabel =
-            u.type === 'video' ? '🎥 Video' : `📎 ${originalName}`;
-
-          await supabase.from('messages').insert({
-            conversation_id: id,
-            sender_id: user.id,
-            content: shouldUseCaption ? messageContent : fallbackLabel,
-            media_url: u.url,
-            media_type: u.type,
-            reply_to_id: i === 0 ? currentReplyToId : null,
-          });
-        }
-      } catch (err) {
-        console.error('Error creating media message(s):', err);
-        toast.error('Failed to send media');
-      }
+  // Local participants first, then (World Chat only) anyone else the search found
+  const mentionSuggestions: MentionCandidate[] = mentionQuery
+    ? [
+        ...Object.values(participants).filter(p =>
+          p.id !== user?.id &&
+          p.username &&
+          (p.username.toLowerCase().startsWith(mentionQuery.query.toLowerCase()) ||
+            (p.full_name || '').toLowerCase().includes(mentionQuery.query.toLowerCase()))
+        ),
+        ...mentionSearchResults.filter(r => r.username && !participants[r.id]),
+      ].slice(0, 6)
+    : [];
+
+  const selectMention = (candidate: MentionCandidate) => {
+    const composer = composerRef.current;
+    if (!composer || !mentionQuery || !candidate.username) return;
+
+    pickedMentionsRef.current.set(candidate.username.toLowerCase(), candidate.id);
+    const result = insertMention(newMessage, mentionQuery, composer.selectionStart, candidate.username);
+    handleComposerChange(result.value);
 
-      clearSelectedFiles();
-      setUploading(false);
-      setUploadProgress(0);
-    } else if (messageContent) {
-      // Text-only message — insert and append returned row optimistically
-      const { data: inserted, error } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: id,
-          sender_id: user.id,
-          content: messageContent,
-          reply_to_id: currentReplyToId,
-        })
-        .select()
-        .single();
+    requestAnimationFrame(() => {
+      composer.focus();
+      composer.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
 
-      if (error) {
-        toast.error('Failed to send message');
-        setNewMessage(messageContent);
-      } else if (inserted) {
-        setMessages((prev) => {
-          if (prev.some((m) => m.id === inserted.id)) return prev;
-          return [...prev, inserted as MessageData];
-        });
-      }
-    }
+  const handleFormat = (action: FormatAction) => {
+    const composer = composerRef.current;
+    if (!composer) return;
 
+    const result = applyFormat(newMessage, composer.selectionStart, composer.selectionEnd, action);
+    handleComposerChange(result.value);
 
-    // Update conversation timestamp
-    await supabase
-      .from('conversations')
-      .update({ updated_at: new Date().toISOString() })
-      .eq('id', id);
+    // Restore the selection after React has written the new value
+    requestAnimationFrame(() => {
+      composer.focus();
+      composer.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
 
-    setSending(false);
+  const insertEmoji = (emoji: string) => {
+    const composer = composerRef.current;
+    if (!composer) return;
+
+    const start = composer.selectionStart;
+    const value = newMessage.slice(0, start) + emoji + newMessage.slice(composer.selectionEnd);
+    handleComposerChange(value);
+
+    requestAnimationFrame(() => {
+      composer.focus();
+      composer.setSelectionRange(start + emoji.length, start + emoji.length);
+    });
   };
 
+  // Enter sends, Shift+Enter adds a line, Ctrl/Cmd shortcuts format the selection
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(prev => (prev + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    const action = getShortcutAction(e);
+    if (action) {
+      e.preventDefault();
+      handleFormat(action);
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
 
   if (loading) {
     return (
@@ -677,6 +2008,54 @@ const Chat = () => {
         isLoading={themeUpdating}
       />
 
+      {/* Forward Picker */}
+      <ForwardDialog
+        open={!!forwardingMessage}
+        onOpenChange={(open) => !open && setForwardingMessage(null)}
+        message={forwardingMessage}
+      />
+
+      {/* Scheduling */}
+      <ScheduleMessageDialog
+        open={scheduleDialogOpen}
+        onOpenChange={setScheduleDialogOpen}
+        title="Schedule message"
+        initialContent={newMessage}
+        confirmLabel="Schedule"
+        onConfirm={handleScheduleMessage}
+      />
+      <CreatePollDialog
+        open={pollDialogOpen}
+        onOpenChange={setPollDialogOpen}
+        onCreate={handleCreatePoll}
+      />
+      <ScheduledMessagesList
+        open={scheduledListOpen}
+        onOpenChange={setScheduledListOpen}
+        messages={scheduledMessages}
+        onUpdate={handleUpdateScheduledMessage}
+        onCancel={handleCancelScheduledMessage}
+      />
+
+      <ReactionsSheet
+        open={!!reactionsMessageId}
+        onOpenChange={(open) => !open && closeReactionsSheet()}
+        reactions={sheetReactions}
+        users={participants}
+        currentUserId={user?.id || ''}
+        onRemoveReaction={(emoji) => reactionsMessageId && handleRemoveReaction(reactionsMessageId, emoji)}
+      />
+
+      {/* Thread side panel */}
+      <ThreadPanel
+        rootMessageId={threadRootId}
+        onOpenChange={(open) => !open && setThreadRootId(null)}
+        currentUserId={user?.id || ''}
+        participants={participants}
+        pendingReplies={messages.filter(m => m.status && m.reply_to_id === threadRootId)}
+        onSend={sendThreadReply}
+      />
+
       {/* Header */}
       <header className={`sticky top-0 z-50 backdrop-blur-lg border-b border-border ${
         isWorldChat 
@@ -693,59 +2072,97 @@ const Chat = () => {
             <ArrowLeft className="w-5 h-5" />
           </Button>
           
-          <div className="flex items-center gap-3 flex-1">
-            <div className="relative">
-              {isWorldChat ? (
-                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
-                  <Globe className="w-5 h-5 text-white" />
-                </div>
-              ) : (
-                <>
-                  <Avatar className="w-10 h-10">
-                    <AvatarImage src={otherUser?.avatar_url || undefined} />
-                    <AvatarFallback className="bg-primary/10 text-primary">
-                      {otherUser?.full_name?.[0] || otherUser?.username?.[0] || '?'}
-                    </AvatarFallback>
-                  </Avatar>
-                  {otherUser?.is_online && (
-                    <span className="absolute bottom-0 right-0 w-3 h-3 bg-online rounded-full border-2 border-card" />
+          {searchOpen && id ? (
+            <MessageSearchBar
+              conversationId={id}
+              currentUserId={user?.id || ''}
+              participants={participants}
+              onJump={jumpToMessage}
+              onClose={() => setSearchOpen(false)}
+            />
+          ) : (
+            <>
+              <div className="flex items-center gap-3 flex-1">
+                <div className="relative">
+                  {isWorldChat ? (
+                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                      <Globe className="w-5 h-5 text-white" />
+                    </div>
+                  ) : (
+                    <>
+                      <Avatar className="w-10 h-10">
+                        <AvatarImage src={otherUser?.avatar_url || undefined} />
+                        <AvatarFallback className="bg-primary/10 text-primary">
+                          {otherUser?.full_name?.[0] || otherUser?.username?.[0] || '?'}
+                        </AvatarFallback>
+                      </Avatar>
+                      {otherUser?.is_online && (
+                        <span className="absolute bottom-0 right-0 w-3 h-3 bg-online rounded-full border-2 border-card" />
+                      )}
+                    </>
                   )}
-                </>
-              )}
-            </div>
-            <div>
-              <p className={`font-semibold ${isWorldChat ? 'text-primary' : 'text-foreground'}`}>
-                {isWorldChat ? 'World Chat' : (otherUser?.full_name || otherUser?.username || 'Unknown')}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                {isWorldChat 
-                  ? `${participantCount} members` 
-                  : otherUser?.is_online 
-                    ? 'Online' 
-                    : otherUser?.last_seen 
-                      ? `Last seen ${formatDistanceToNow(new Date(otherUser.last_seen), { addSuffix: true })}`
-                      : 'Offline'}
-              </p>
-            </div>
-          </div>
+                </div>
+                <div>
+                  <p className={`font-semibold ${isWorldChat ? 'text-primary' : 'text-foreground'}`}>
+                    {isWorldChat ? 'World Chat' : (otherUser?.full_name || otherUser?.username || 'Unknown')}
+                  </p>
+                  <p className={`text-xs ${typingNames.length > 0 ? 'text-primary' : 'text-muted-foreground'}`}>
+                    {typingNames.length > 0
+                      ? formatTypingText(typingNames)
+                      : isWorldChat 
+                        ? `${participantCount} members` 
+                        : otherUser?.is_online 
+                          ? 'Online' 
+                          : otherUser?.last_seen 
+                            ? `Last seen ${formatDistanceToNow(new Date(otherUser.last_seen), { addSuffix: true })}`
+                            : 'Offline'}
+                  </p>
+                </div>
+              </div>
 
-          {/* Theme Settings Button */}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setThemePickerOpen(true)}
-            className="rounded-full hover:bg-accent"
-          >
-            <Settings className="w-5 h-5" />
-          </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setSearchOpen(true)}
+                className="rounded-full hover:bg-accent"
+                aria-label="Search messages"
+              >
+                <Search className="w-5 h-5" />
+              </Button>
+
+              <DisappearingMessagesMenu
+                ttlSeconds={messageTtl}
+                canChange={canPin}
+                onChange={handleMessageTtlChange}
+              />
+
+              {/* Theme Settings Button */}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setThemePickerOpen(true)}
+                className="rounded-full hover:bg-accent"
+              >
+                <Settings className="w-5 h-5" />
+              </Button>
+            </>
+          )}
         </div>
       </header>
 
+      {/* Pinned Messages */}
+      <PinnedBanner
+        pins={pinnedMessages}
+        canUnpin={canPin}
+        onSelect={jumpToMessage}
+        onUnpin={handleUnpin}
+      />
+
       {/* Messages */}
       <div
-        ref={messagesContainerRef}
+        ref={messageList.scrollRef}
         onScroll={handleMessagesScroll}
-        className="flex-1 overflow-y-auto p-4 space-y-4"
+        className="flex-1 overflow-y-auto p-4 space-y-4 [overflow-anchor:none]"
       >
         <div className="max-w-2xl mx-auto space-y-4">
           {loadingMore && (
@@ -753,7 +2170,7 @@ const Chat = () => {
               <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
             </div>
           )}
-          {messages.length === 0 ? (
+          {visibleMessages.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-muted-foreground">No messages yet</p>
               <p className="text-sm text-muted-foreground mt-1">
@@ -763,46 +2180,135 @@ const Chat = () => {
               </p>
             </div>
           ) : (
-            messages.map((message, index) => {
-              const isMine = message.sender_id === user?.id;
-              const showDate = index === 0 || 
-                format(new Date(message.created_at), 'yyyy-MM-dd') !== 
-                format(new Date(messages[index - 1].created_at), 'yyyy-MM-dd');
-              
-              const sender = isWorldChat && !isMine ? participants[message.sender_id] : null;
-              const messageReactions = reactions.filter(r => r.message_id === message.id);
-              const replyToMessage = message.reply_to_id 
-                ? messages.find(m => m.id === message.reply_to_id) 
-                : null;
-
-              return (
-                <React.Fragment key={message.id}>
-                  {showDate && (
-                    <div className="flex justify-center">
-                      <span className="text-xs text-muted-foreground bg-muted px-3 py-1 rounded-full">
-                        {format(new Date(message.created_at), 'MMMM d, yyyy')}
-                      </span>
+            <div
+              ref={messageList.listRef}
+              style={{ paddingTop: messageList.paddingTop, paddingBottom: messageList.paddingBottom }}
+            >
+              {messageList.virtualItems.map(({ index }) => {
+                const message = visibleMessages[index];
+                const isMine = message.sender_id === user?.id;
+                const showDate = index === 0 || 
+                  format(new Date(message.created_at), 'yyyy-MM-dd') !== 
+                  format(new Date(visibleMessages[index - 1].created_at), 'yyyy-MM-dd');
+                const dateDivider = showDate && (
+                  <div className="flex justify-center">
+                    <span className="text-xs text-muted-foreground bg-muted px-3 py-1 rounded-full">
+                      {format(new Date(message.created_at), 'MMMM d, yyyy')}
+                    </span>
+                  </div>
+                );
+                const unreadMarker = unreadDivider?.messageId === message.id && (
+                  <div className="flex items-center gap-3 text-xs font-medium text-primary">
+                    <div className="flex-1 h-px bg-primary/40" />
+                    {unreadDivider.count === 1 ? '1 new message' : `${unreadDivider.count} new messages`}
+                    <div className="flex-1 h-px bg-primary/40" />
+                  </div>
+                );
+  
+                if (message.system_event) {
+                  return (
+                    <div key={message.id} ref={messageList.measureElement} data-key={message.id} className="pb-4 space-y-4">
+                      {dateDivider}
+                      {unreadMarker}
+                      <div className="flex justify-center">
+                        <span className="flex items-center gap-1.5 text-xs text-muted-foreground bg-muted/60 px-3 py-1 rounded-full">
+                          <Timer className="w-3.5 h-3.5" />
+                          {describeSystemEvent(message)}
+                        </span>
+                      </div>
                     </div>
-                  )}
-                  <MessageBubble
-                    message={message}
-                    isMine={isMine}
-                    isWorldChat={isWorldChat}
-                    sender={sender}
-                    currentTheme={currentTheme}
-                    reactions={messageReactions}
-                    replyToMessage={replyToMessage}
-                    currentUserId={user?.id || ''}
-                    onReply={handleReply}
-                    onDelete={handleDeleteMessage}
-                    onReact={handleAddReaction}
-                    onRemoveReaction={handleRemoveReaction}
-                  />
-                </React.Fragment>
-              );
-            })
+                  );
+                }
+                
+                const sender = isWorldChat && !isMine ? participants[message.sender_id] : null;
+                const messageReactions = reactionSummaries[message.id] || [];
+   
+                // Receipts: check marks in 1:1 chats, "seen by" avatars everywhere else
+                const readStatus = isMine && isOneToOne && otherUser
+                  ? (readCursors[otherUser.id] && new Date(readCursors[otherUser.id]) >= new Date(message.created_at) ? 'read' : 'sent')
+                  : undefined;
+                const replyToMessage = message.reply_to_id 
+                  ? messages.find(m => m.id === message.reply_to_id) ?? replyTargets[message.reply_to_id]
+                  : null;
+  
+                return (
+                  <div key={message.id} ref={messageList.measureElement} data-key={message.id} className="pb-4 space-y-4">
+                    {dateDivider}
+                    {unreadMarker}
+                    <MessageBubble
+                      message={message}
+                      isMine={isMine}
+                      isWorldChat={isWorldChat}
+                      sender={sender}
+                      currentTheme={currentTheme}
+                      reactions={messageReactions}
+                      replyToMessage={replyToMessage}
+                      currentUserId={user?.id || ''}
+                      mentionedUsernames={(message.mentions || [])
+                        .map(mentionedId => participants[mentionedId]?.username)
+                        .filter((username): username is string => !!username)}
+                      currentUsername={user ? participants[user.id]?.username : null}
+                      readStatus={readStatus}
+                      seenBy={seenByMessageId[message.id]}
+                      participants={participants}
+                      replyCount={replyCounts[message.id]}
+                      poll={polls[message.id]}
+                      pollVoterNames={polls[message.id]?.voters.map(voterIds =>
+                        voterIds.map(voterId =>
+                          participants[voterId]?.full_name || participants[voterId]?.username || 'Unknown'
+                        )
+                      )}
+                      isStarred={starredIds.has(message.id)}
+                      isPinned={pinnedMessages.some(p => p.message_id === message.id)}
+                      isHighlighted={highlightedMessageId === message.id}
+                      onReply={handleReply}
+                      onOpenThread={handleOpenThread}
+                      onJumpToMessage={jumpToMessage}
+                      onForward={setForwardingMessage}
+                      onToggleStar={handleToggleStar}
+                      onTogglePin={canPin ? handleTogglePin : undefined}
+                      onEdit={handleStartEdit}
+                      onDeleteForMe={handleDeleteForMe}
+                      onDeleteForEveryone={handleDeleteForEveryone}
+                      onReact={handleAddReaction}
+                      onRemoveReaction={handleRemoveReaction}
+                      onShowReactions={(m) => openReactionsSheet(m.id)}
+                      onRetry={handleRetryMessage}
+                      onDiscard={handleDiscardMessage}
+                      quickReactions={quickReactions}
+                      onVote={handleVote}
+                      onClosePoll={handleClosePoll}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {loadingNewer && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+
+        {/* Jump to latest, pinned to the bottom of the visible area */}
+        <div className="sticky bottom-2 h-0 max-w-2xl mx-auto">
+          {visibleMessages.length > 0 && (!isAtEnd || hasNewer) && (
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={jumpToLatest}
+              className="absolute bottom-0 right-0 h-10 w-10 rounded-full shadow-md animate-fade-in"
+              aria-label="Jump to latest messages"
+            >
+              <ChevronDown className="w-5 h-5" />
+              {missedCount > 0 && (
+                <span className="absolute -top-2 -right-1 min-w-5 h-5 px-1.5 flex items-center justify-center text-xs font-medium rounded-full bg-primary text-primary-foreground">
+                  {missedCount}
+                </span>
+              )}
+            </Button>
           )}
-          <div ref={messagesEndRef} />
         </div>
       </div>
 
@@ -817,24 +2323,18 @@ const Chat = () => {
           />
         )}
 
-        {/* Upload Progress */}
-        {uploading && (
-          <div className="max-w-2xl mx-auto mb-3">
-            <div className="flex items-center gap-3 p-3 bg-muted rounded-lg">
-              <Loader2 className="w-5 h-5 animate-spin text-primary" />
-              <div className="flex-1">
-                <p className="text-sm text-muted-foreground mb-1">
-                  Uploading {selectedFiles.length} file{selectedFiles.length > 1 ? 's' : ''}...
-                </p>
-                <Progress value={uploadProgress} className="h-2" />
-              </div>
-              <span className="text-sm font-medium text-foreground">{uploadProgress}%</span>
-            </div>
-          </div>
+        {/* Edit Preview */}
+        {editingMessage && (
+          <ReplyPreview
+            replyToMessage={editingMessage}
+            currentUserId={user?.id || ''}
+            mode="edit"
+            onClear={cancelEdit}
+          />
         )}
 
         {/* File Previews */}
-        {selectedFiles.length > 0 && !uploading && (
+        {selectedFiles.length > 0 && (
           <div className="max-w-2xl mx-auto mb-3">
             <div className="flex gap-2 flex-wrap">
               {selectedFiles.map((fileInfo, index) => (
@@ -878,7 +2378,42 @@ const Chat = () => {
           </div>
         )}
         
-        <form onSubmit={sendMessage} className="max-w-2xl mx-auto flex gap-3">
+        {/* Link Preview (removable before sending) */}
+        {composerLink && composerLink !== removedPreviewUrl && !editingMessage && newMessage.trim() && (
+          <div className="max-w-2xl mx-auto mb-3">
+            <LinkPreviewCard
+              url={composerLink}
+              unfurl
+              onRemove={() => setRemovedPreviewUrl(composerLink)}
+            />
+          </div>
+        )}
+
+        {scheduledMessages.length > 0 && (
+          <div className="max-w-2xl mx-auto mb-2">
+            <button
+              type="button"
+              onClick={() => setScheduledListOpen(true)}
+              className="flex items-center gap-1.5 text-xs font-medium text-primary hover:underline"
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+              {scheduledMessages.length === 1
+                ? '1 scheduled message'
+                : `${scheduledMessages.length} scheduled messages`}
+            </button>
+          </div>
+        )}
+
+        {showFormatting && <FormattingToolbar onFormat={handleFormat} />}
+
+        <MentionSuggestions
+          users={mentionSuggestions}
+          activeIndex={Math.min(mentionIndex, Math.max(mentionSuggestions.length - 1, 0))}
+          onSelect={selectMention}
+          onHover={setMentionIndex}
+        />
+
+        <form onSubmit={sendMessage} className="relative max-w-2xl mx-auto flex items-end gap-3">
           <input
             type="file"
             ref={fileInputRef}
@@ -892,29 +2427,84 @@ const Chat = () => {
             size="icon"
             variant="ghost"
             onClick={() => fileInputRef.current?.click()}
-            disabled={uploading}
+            disabled={!!editingMessage}
             className="h-12 w-12 rounded-full hover:bg-accent"
           >
             <Paperclip className="w-5 h-5" />
           </Button>
-          <Input
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => setPollDialogOpen(true)}
+            disabled={!!editingMessage}
+            className="h-12 w-12 rounded-full hover:bg-accent"
+            aria-label="Create poll"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => setShowFormatting(prev => !prev)}
+            className={`h-12 w-12 rounded-full hover:bg-accent ${showFormatting ? 'bg-accent' : ''}`}
+            aria-label="Formatting"
+          >
+            <Type className="w-5 h-5" />
+          </Button>
+          <Popover open={emojiPickerOpen} onOpenChange={setEmojiPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-12 w-12 rounded-full hover:bg-accent"
+                aria-label="Emoji"
+              >
+                <Smile className="w-5 h-5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" align="start" className="w-auto p-0">
+              <EmojiPicker onSelect={insertEmoji} />
+            </PopoverContent>
+          </Popover>
+          <Textarea
+            ref={composerRef}
+            rows={1}
             placeholder="Type a message..."
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            className="flex-1 h-12 rounded-2xl bg-muted border-0 focus-visible:ring-primary"
+            onChange={(e) => handleComposerChange(e.target.value, e.target.selectionStart)}
+            onKeyDown={handleComposerKeyDown}
+            onBlur={() => {
+              sendStoppedTyping();
+              setMentionQuery(null);
+            }}
+            className="flex-1 min-h-12 max-h-40 py-3 resize-none rounded-2xl bg-muted border-0 focus-visible:ring-primary"
           />
           <Button
-            type="submit"
+            type="button"
             size="icon"
-            disabled={(!newMessage.trim() && selectedFiles.length === 0) || sending || uploading}
-            className="h-12 w-12 rounded-full gradient-primary hover:opacity-90 transition-opacity"
+            variant="ghost"
+            onClick={() => setScheduleDialogOpen(true)}
+            disabled={!!editingMessage || selectedFiles.length > 0}
+            className="h-12 w-12 rounded-full hover:bg-accent"
+            aria-label="Schedule message"
           >
-            {uploading ? (
-              <Loader2 className="w-5 h-5 text-primary-foreground animate-spin" />
-            ) : (
-              <Send className="w-5 h-5 text-primary-foreground" />
-            )}
+            <CalendarClock className="w-5 h-5" />
           </Button>
+          {!newMessage.trim() && selectedFiles.length === 0 && !editingMessage ? (
+            <VoiceRecorder disabled={sending} onRecorded={sendVoiceMessage} />
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={sending}
+              className="h-12 w-12 rounded-full gradient-primary hover:opacity-90 transition-opacity"
+            >
+              <Send className="w-5 h-5 text-primary-foreground" />
+            </Button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ArrowLeft, Star } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { renderMessageContent } from '@/lib/richText';
+import { fetchConversationList, getConversationTitle } from '@/lib/conversations';
+import MessageMedia from '@/components/chat/MessageMedia';
+
+interface StarredEntry {
+  id: string;
+  created_at: string;
+  messages: {
+    id: string;
+    content: string;
+    conversation_id: string;
+    created_at: string;
+    media_url: string | null;
+    media_type: string | null;
+    deleted_at: string | null;
+    profiles: {
+      id: string;
+      username: string | null;
+      full_name: string | null;
+      avatar_url: string | null;
+    } | null;
+  } | null;
+}
+
+const MEDIA_PLACEHOLDERS = new Set(['📷 Photo', '📷 Photos', '🎥 Video', '📎 File']);
+
+const Starred = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<StarredEntry[]>([]);
+  const [conversationTitles, setConversationTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStarred = async () => {
+      const [{ data, error }, conversations] = await Promise.all([
+        supabase
+          .from('starred_messages')
+          .select(`
+            id,
+            created_at,
+            messages (
+              id,
+              content,
+              conversation_id,
+              created_at,
+              media_url,
+              media_type,
+              deleted_at,
+              profiles!messages_sender_id_fkey (
+                id,
+                username,
+                full_name,
+                avatar_url
+              )
+            )
+          `)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        fetchConversationList(),
+      ]);
+
+      if (error) {
+        console.error('Error fetching starred messages:', error);
+      } else {
+        setEntries((data as StarredEntry[]) || []);
+      }
+
+      const titles: Record<string, string> = {};
+      conversations.forEach(convo => {
+        titles[convo.id] = getConversationTitle(convo);
+      });
+      setConversationTitles(titles);
+      setLoading(false);
+    };
+
+    fetchStarred();
+  }, [user]);
+
+  const handleUnstar = async (entry: StarredEntry) => {
+    const { error } = await supabase
+      .from('starred_messages')
+      .delete()
+      .eq('id', entry.id);
+
+    if (error) {
+      toast.error('Failed to unstar message');
+    } else {
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    }
+  };
+
+  if (authLoading || !user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-card/80 backdrop-blur-lg border-b border-border">
+        <div className="max-w-2xl mx-auto px-4 h-16 flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate('/')}
+            className="rounded-full hover:bg-accent"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-xl font-bold text-foreground">Starred Messages</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-6 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-pulse text-primary">Loading starred messages...</div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <Star className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-muted-foreground">No starred messages yet</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Star important messages to find them here later.
+            </p>
+          </div>
+        ) : (
+          entries.map((entry) => {
+            const message = entry.messages;
+            if (!message) return null;
+
+            const sender = message.profiles;
+            const isMine = sender?.id === user.id;
+            const senderName = isMine ? 'You' : (sender?.full_name || sender?.username || 'Unknown');
+            const conversationTitle = conversationTitles[message.conversation_id] || 'Chat';
+            const showText = message.content?.trim().length > 0 && !MEDIA_PLACEHOLDERS.has(message.content);
+
+            return (
+              <div
+                key={entry.id}
+                className="p-4 bg-card rounded-2xl shadow-card animate-fade-in cursor-pointer hover:bg-accent transition-colors"
+                onClick={() => navigate(`/chat/${message.conversation_id}?message=${message.id}`)}
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <Avatar className="w-8 h-8">
+                    <AvatarImage src={sender?.avatar_url || undefined} />
+                    <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                      {sender?.full_name?.[0] || sender?.username?.[0] || '?'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-foreground truncate">
+                      {senderName}
+                      <span className="font-normal text-muted-foreground"> in {conversationTitle}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(message.created_at), 'MMM d, yyyy · h:mm a')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full flex-shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleUnstar(entry);
+                    }}
+                  >
+                    <Star className="w-4 h-4 fill-current text-yellow-500" />
+                  </Button>
+                </div>
+
+                {message.deleted_at ? (
+                  <p className="text-sm italic text-muted-foreground">🚫 This message was deleted</p>
+                ) : (
+                  <>
+                    {/* Media opens its own viewer instead of the chat */}
+                    <div onClick={(e) => e.stopPropagation()}>
+                      <MessageMedia message={message} />
+                    </div>
+                    {showText && (
+                      <div className="text-sm break-words text-foreground space-y-1">{renderMessageContent(message.content)}</div>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Starred;
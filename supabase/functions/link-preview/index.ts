@@ -0,0 +1,93 @@
+// Unfurls a link into OpenGraph / Twitter-card metadata and caches it in public.link_previews.
+//
+// POST { "url": "https://..." } -> LinkPreview
+//
+// Local testing against a stand-in HTTP server (e.g. `python3 -m http.server 8080`): serve the
+// function with LINK_PREVIEW_ALLOW_PRIVATE_HOSTS=true in its env file so localhost URLs aren't
+// rejected, then POST { "url": "http://host.docker.internal:8080/page.html" }.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { UnfurlError, normalizeUrl, unfurl } from './unfurl.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Re-fetch cached previews after a day
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const resolveHost = async (hostname: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  let url: string;
+  try {
+    const body = await req.json();
+    url = normalizeUrl(String(body?.url ?? ''));
+  } catch (error) {
+    return json({ error: error instanceof UnfurlError ? error.message : 'invalid_body' }, 400);
+  }
+
+  // The cache is written with the service role; callers are already verified by the JWT check
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  );
+
+  const { data: cached } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (cached && Date.now() - new Date(cached.fetched_at).getTime() < CACHE_TTL_MS) {
+    return json(cached);
+  }
+
+  try {
+    const preview = await unfurl(url, {
+      resolveHost,
+      allowPrivateHosts: Deno.env.get('LINK_PREVIEW_ALLOW_PRIVATE_HOSTS') === 'true',
+    });
+
+    const { data: saved, error } = await supabase
+      .from('link_previews')
+      .upsert({ ...preview, fetched_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error caching link preview:', error);
+      return json(preview);
+    }
+
+    return json(saved);
+  } catch (error) {
+    if (error instanceof UnfurlError) {
+      return json({ error: error.message }, error.status);
+    }
+
+    console.error('Error unfurling link:', error);
+    // Serve a stale preview rather than nothing when the site is temporarily unreachable
+    return cached ? json(cached) : json({ error: 'fetch_failed' }, 502);
+  }
+});
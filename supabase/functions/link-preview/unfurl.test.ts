@@ -0,0 +1,180 @@
+// Runs unfurl against a local HTTP stand-in:
+//   deno test --allow-net supabase/functions/link-preview/unfurl.test.ts
+import assert from 'node:assert/strict';
+import { UnfurlError, isPrivateAddress, unfurl } from './unfurl.ts';
+
+const PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="Stand-in &amp; page">
+    <meta property="og:description" content="A page served by the test">
+    <meta property="og:image" content="/cover.png">
+    <meta property="og:site_name" content="Stand-in">
+  </head>
+  <body></body>
+</html>`;
+
+// Hostnames the tests pretend live on the public internet or inside the network
+const HOSTS: Record<string, string[]> = {
+  'public.test': ['93.184.216.34'],
+  'internal.test': ['10.0.0.5'],
+  'mapped.test': ['::ffff:7f00:1'],
+};
+
+const resolveHost = async (hostname: string) => HOSTS[hostname] ?? [];
+
+interface StandIn {
+  origin: string;
+  // Sends every request to the stand-in, whichever host the URL names
+  fetch: typeof fetch;
+  // Response body bytes unfurl has pulled through that fetch
+  bytesRead: () => number;
+}
+
+const withStandIn = async (test: (standIn: StandIn) => Promise<void>) => {
+  let bytesRead = 0;
+  const released = new AbortController();
+  const encoder = new TextEncoder();
+
+  const options = { hostname: '127.0.0.1', port: 0, onListen: () => undefined };
+  const server: Deno.HttpServer<Deno.NetAddr> = Deno.serve(options, async (req): Promise<Response> => {
+    const { pathname } = new URL(req.url);
+
+    switch (pathname) {
+      case '/page':
+        return new Response(PAGE, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+      case '/redirect-page':
+        return new Response(null, { status: 302, headers: { Location: '/page' } });
+      case '/redirect-loopback':
+        return new Response(null, { status: 302, headers: { Location: `http://127.0.0.1:${server.addr.port}/page` } });
+      case '/redirect-mapped':
+        return new Response(null, { status: 301, headers: { Location: `http://[::ffff:7f00:1]:${server.addr.port}/page` } });
+      case '/redirect-internal':
+        return new Response(null, { status: 307, headers: { Location: 'http://internal.test/page' } });
+      case '/huge': {
+        // A <head> that never closes, streamed until the client stops reading
+        const chunk = encoder.encode(`<!-- ${'x'.repeat(16 * 1024)} -->\n`);
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode('<html><head><title>Huge page</title>'));
+          },
+          pull(controller) {
+            controller.enqueue(chunk);
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/html' } });
+      }
+      case '/stall':
+        await new Promise((resolve) => released.signal.addEventListener('abort', resolve));
+        return new Response(PAGE, { headers: { 'Content-Type': 'text/html' } });
+      default:
+        return new Response('Not found', { status: 404 });
+    }
+  });
+
+  const origin = `http://127.0.0.1:${server.addr.port}`;
+  const standInFetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const response = await fetch(`${origin}${url.pathname}${url.search}`, init);
+    if (!response.body) return response;
+
+    const counted = response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          bytesRead += chunk.byteLength;
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+    return new Response(counted, response);
+  };
+
+  try {
+    await test({ origin, fetch: standInFetch, bytesRead: () => bytesRead });
+  } finally {
+    released.abort();
+    await server.shutdown();
+  }
+};
+
+const assertBlocked = async (promise: Promise<unknown>, message = 'blocked_host') => {
+  await assert.rejects(promise, (error) => error instanceof UnfurlError && error.message === message);
+};
+
+Deno.test('unfurls a normal page', () =>
+  withStandIn(async ({ origin }) => {
+    const preview = await unfurl(`${origin}/page#section`, { allowPrivateHosts: true });
+
+    assert.deepEqual(preview, {
+      url: `${origin}/page`,
+      title: 'Stand-in & page',
+      description: 'A page served by the test',
+      image_url: `${origin}/cover.png`,
+      site_name: 'Stand-in',
+    });
+  }));
+
+Deno.test('follows redirects on public hosts and caches under the original URL', () =>
+  withStandIn(async ({ fetch }) => {
+    const preview = await unfurl('http://public.test/redirect-page', { fetch, resolveHost });
+
+    assert.equal(preview.url, 'http://public.test/redirect-page');
+    assert.equal(preview.title, 'Stand-in & page');
+    assert.equal(preview.image_url, 'http://public.test/cover.png');
+  }));
+
+Deno.test('refuses redirects to private addresses', () =>
+  withStandIn(async ({ fetch }) => {
+    await assertBlocked(unfurl('http://public.test/redirect-loopback', { fetch, resolveHost }));
+    await assertBlocked(unfurl('http://public.test/redirect-mapped', { fetch, resolveHost }));
+    await assertBlocked(unfurl('http://public.test/redirect-internal', { fetch, resolveHost }));
+  }));
+
+Deno.test('refuses IPv4-mapped, NAT64 and other private IPv6 hosts', async () => {
+  for (const host of [
+    '[::ffff:7f00:1]',
+    '[::ffff:a9fe:a9fe]',
+    '[::ffff:127.0.0.1]',
+    '[::ffff:0:a00:1]',
+    '[::7f00:1]',
+    '[64:ff9b::a9fe:a9fe]',
+    '[64:ff9b:1::1]',
+    '[2002:a9fe:a9fe::1]',
+    '[::1]',
+    '[fd00::1]',
+    '[fe80::1]',
+    'mapped.test',
+  ]) {
+    await assertBlocked(unfurl(`http://${host}/page`, { resolveHost }));
+  }
+
+  assert.equal(isPrivateAddress('::ffff:8.8.8.8'), true);
+  assert.equal(isPrivateAddress('2606:4700::1111'), false);
+  assert.equal(isPrivateAddress('2002:808:808::1'), false);
+  assert.equal(isPrivateAddress('93.184.216.34'), false);
+});
+
+Deno.test('refuses hosts that do not resolve', async () => {
+  await assertBlocked(unfurl('http://unknown.test/page', { resolveHost }), 'unresolvable_host');
+});
+
+Deno.test('stops reading pages that never close <head>', () =>
+  withStandIn(async ({ fetch, bytesRead }) => {
+    const preview = await unfurl('http://public.test/huge', { fetch, resolveHost, timeoutMs: 10_000 });
+
+    assert.equal(preview.title, 'Huge page');
+    // The reader stops after 512 KiB; allow for the chunk that crossed the limit
+    assert.ok(bytesRead() < 600 * 1024, `read ${bytesRead()} bytes`);
+  }));
+
+Deno.test('gives up on pages that do not answer in time', () =>
+  withStandIn(async ({ origin }) => {
+    const startedAt = Date.now();
+
+    await assert.rejects(
+      unfurl(`${origin}/stall`, { allowPrivateHosts: true, timeoutMs: 200 }),
+      (error) => error instanceof DOMException && error.name === 'TimeoutError',
+    );
+    assert.ok(Date.now() - startedAt < 2000);
+  }));
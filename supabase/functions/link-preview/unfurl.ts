@@ -0,0 +1,282 @@
+// OpenGraph / Twitter-card unfurling, kept free of Supabase and Deno.serve so it can be run
+// against a local HTTP stand-in: pass a custom fetch/resolveHost and allowPrivateHosts: true.
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface UnfurlOptions {
+  fetch?: typeof fetch;
+  // Resolve a hostname to its IP addresses (used to refuse private network targets)
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  // Allow localhost and private ranges; only for local testing
+  allowPrivateHosts?: boolean;
+  // Deadline for the whole fetch, redirects and body included
+  timeoutMs?: number;
+}
+
+export class UnfurlError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message);
+    this.name = 'UnfurlError';
+  }
+}
+
+const MAX_REDIRECTS = 3;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_TEXT_LENGTH = 300;
+
+/** Canonical cache key: http(s) only, no fragment. */
+export const normalizeUrl = (raw: string): string => {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new UnfurlError('invalid_url', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('invalid_url', 400);
+  }
+  url.hash = '';
+  return url.toString();
+};
+
+const isPrivateIPv4 = (a: number, b: number): boolean =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  a >= 224;
+
+/** Expand an IPv6 address into its eight 16-bit groups, or null when it isn't one. */
+const parseIPv6 = (address: string): number[] | null => {
+  let ip = address.replace(/%.*$/, '');
+
+  // A trailing dotted quad stands for the last two groups (::ffff:127.0.0.1)
+  const dotted = ip.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const bytes = dotted.slice(2).map(Number);
+    if (bytes.some((byte) => byte > 255)) return null;
+    ip = `${dotted[1]}${((bytes[0] << 8) | bytes[1]).toString(16)}:${((bytes[2] << 8) | bytes[3]).toString(16)}`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const isPrivateIPv6 = (groups: number[]): boolean => {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const prefixIsZero = g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0;
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96, 64:ff9b:1::/48) addresses reach IPv4
+  // hosts through the IPv6 stack, so they are refused whatever IPv4 address they carry
+  if (prefixIsZero && g5 === 0xffff) return true;
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0xffff && g5 === 0) return true;
+  if (g0 === 0x64 && g1 === 0xff9b && (g2 === 1 || (g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0))) return true;
+
+  // IPv4-compatible (::a.b.c.d, which includes :: and ::1) and 6to4 (2002::/16) embed an IPv4 address
+  if (prefixIsZero && g5 === 0) return isPrivateIPv4(g6 >> 8, g6 & 0xff);
+  if (g0 === 0x2002) return isPrivateIPv4(g1 >> 8, g1 & 0xff);
+
+  return (
+    (g0 & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (g0 & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (g0 & 0xffc0) === 0xfec0 || // site-local fec0::/10
+    (g0 & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (ip === 'localhost' || ip.endsWith('.localhost')) return true;
+
+  const v4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    return isPrivateIPv4(Number(v4[1]), Number(v4[2]));
+  }
+
+  if (ip.includes(':')) {
+    const groups = parseIPv6(ip);
+    // Refuse anything that looks like an address but can't be read as one
+    return !groups || isPrivateIPv6(groups);
+  }
+
+  return false;
+};
+
+const assertPublicHost = async (url: URL, options: UnfurlOptions) => {
+  if (options.allowPrivateHosts) return;
+
+  const addresses = [url.hostname];
+  if (options.resolveHost && !/^[\d.]+$|:/.test(url.hostname)) {
+    const resolved = await options.resolveHost(url.hostname);
+    // Without an answer here fetch would resolve the name itself, unchecked
+    if (resolved.length === 0) {
+      throw new UnfurlError('unresolvable_host', 400);
+    }
+    addresses.push(...resolved);
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new UnfurlError('blocked_host', 400);
+  }
+};
+
+// Follow redirects by hand so every hop is resolved and checked again before it is fetched.
+// One deadline covers all hops and the body read.
+const fetchPage = async (url: string, options: UnfurlOptions): Promise<{ response: Response; finalUrl: string }> => {
+  const doFetch = options.fetch ?? fetch;
+  const signal = AbortSignal.timeout(options.timeoutMs ?? 5000);
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicHost(new URL(current), options);
+
+    const response = await doFetch(current, {
+      redirect: 'manual',
+      signal,
+      headers: {
+        'User-Agent': 'ChatshotLinkPreview/1.0',
+        Accept: 'text/html,application/xhtml+xml',
+      },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = normalizeUrl(new URL(location, current).toString());
+      continue;
+    }
+
+    return { response, finalUrl: current };
+  }
+
+  throw new UnfurlError('too_many_redirects');
+};
+
+const readHead = async (response: Response): Promise<string> => {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+
+  // Metadata lives in <head>; stop early instead of downloading whole pages
+  while (bytes < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    html += decoder.decode(value, { stream: true });
+    if (/<\/head>/i.test(html)) break;
+  }
+
+  await reader.cancel().catch(() => undefined);
+  return html;
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const clean = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+};
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+};
+
+/** Collect <meta property|name=... content=...> pairs, first occurrence wins. */
+export const parseMetaTags = (html: string): Map<string, string> => {
+  const meta = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (getAttribute(tag, 'property') ?? getAttribute(tag, 'name'))?.toLowerCase();
+    const content = getAttribute(tag, 'content');
+    if (key && content !== undefined && !meta.has(key)) {
+      meta.set(key, content);
+    }
+  }
+
+  return meta;
+};
+
+export const extractPreview = (html: string, pageUrl: string): LinkPreview => {
+  const meta = parseMetaTags(html);
+  const pick = (...keys: string[]) => keys.map((key) => meta.get(key)).find((value) => value?.trim());
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let imageUrl: string | null = null;
+  const rawImage = pick('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src');
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') {
+        imageUrl = resolved.toString();
+      }
+    } catch {
+      // Ignore unparseable image URLs
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: clean(pick('og:title', 'twitter:title') ?? titleTag),
+    description: clean(pick('og:description', 'twitter:description', 'description')),
+    image_url: imageUrl,
+    site_name: clean(pick('og:site_name', 'application-name')) ?? new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+};
+
+/**
+ * Fetch a page and extract its preview metadata.
+ * Throws UnfurlError for invalid/blocked URLs and for pages that aren't HTML.
+ */
+export const unfurl = async (rawUrl: string, options: UnfurlOptions = {}): Promise<LinkPreview> => {
+  const url = normalizeUrl(rawUrl);
+  const { response, finalUrl } = await fetchPage(url, options);
+
+  if (!response.ok) {
+    throw new UnfurlError(`upstream_status_${response.status}`, 502);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.includes('html')) {
+    await response.body?.cancel();
+    throw new UnfurlError('not_html');
+  }
+
+  const preview = extractPreview(await readHead(response), finalUrl);
+  // Cache under the URL the sender wrote, even when it redirected elsewhere
+  return { ...preview, url };
+};
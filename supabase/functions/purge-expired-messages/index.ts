@@ -0,0 +1,122 @@
+// Deletes messages whose disappearing-message timer has run out, together with their
+// chat-media objects. Called every few minutes by the 'purge-expired-messages' pg_cron job.
+//
+// POST {} -> { purged: number, files: number }
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const BATCH_SIZE = 200;
+const MAX_BATCHES = 25;
+const MEDIA_PATH_MARKER = '/storage/v1/object/public/chat-media/';
+// media_url values per shared-media lookup, keeping the request URL short
+const LOOKUP_CHUNK_SIZE = 50;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// media_url holds one public URL, or a JSON array of them for galleries
+const getMediaUrls = (mediaUrl: string | null, mediaType: string | null): string[] => {
+  if (!mediaUrl) return [];
+  if (mediaType === 'gallery') {
+    try {
+      const urls = JSON.parse(mediaUrl);
+      return Array.isArray(urls) ? urls.filter((url) => typeof url === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+  return [mediaUrl];
+};
+
+// PostgREST "in" list with every value quoted, so commas and quotes in gallery JSON match literally
+const toPostgrestList = (values: string[]): string =>
+  `(${values.map((value) => `"${value.replace(/[\\"]/g, '\\$&')}"`).join(',')})`;
+
+const toStoragePath = (url: string): string | null => {
+  const index = url.indexOf(MEDIA_PATH_MARKER);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + MEDIA_PATH_MARKER.length));
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'forbidden' }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  let purged = 0;
+  let files = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data: expired, error } = await supabase
+      .from('messages')
+      .select('id, media_url, media_type')
+      .lte('expires_at', new Date().toISOString())
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('Error loading expired messages:', error);
+      return json({ error: 'load_failed', purged, files }, 500);
+    }
+    if (!expired || expired.length === 0) break;
+
+    const expiredIds = expired.map((m) => m.id);
+    const urls = [...new Set(expired.flatMap((m) => getMediaUrls(m.media_url, m.media_type)))];
+
+    // Forwarded copies share the original's files (and its exact media_url value, galleries
+    // included); keep anything another message still uses
+    const mediaValues = [...new Set(expired.map((m) => m.media_url).filter((value): value is string => !!value))];
+    const stillUsed = new Set<string>();
+
+    for (let i = 0; i < mediaValues.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data: sharing, error: sharingError } = await supabase
+        .from('messages')
+        .select('media_url, media_type')
+        .filter('media_url', 'in', toPostgrestList(mediaValues.slice(i, i + LOOKUP_CHUNK_SIZE)))
+        .not('id', 'in', `(${expiredIds.join(',')})`);
+
+      if (sharingError) {
+        console.error('Error checking shared media:', sharingError);
+        return json({ error: 'load_failed', purged, files }, 500);
+      }
+      (sharing || []).forEach((m) => getMediaUrls(m.media_url, m.media_type).forEach((url) => stillUsed.add(url)));
+    }
+
+    const paths = urls
+      .filter((url) => !stillUsed.has(url))
+      .map(toStoragePath)
+      .filter((path): path is string => !!path);
+
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from('chat-media').remove(paths);
+      if (storageError) {
+        // Leave the rows in place so the files are retried on the next run
+        console.error('Error removing expired media:', storageError);
+        return json({ error: 'storage_failed', purged, files }, 500);
+      }
+      files += paths.length;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('messages')
+      .delete()
+      .in('id', expiredIds);
+
+    if (deleteError) {
+      console.error('Error deleting expired messages:', deleteError);
+      return json({ error: 'delete_failed', purged, files }, 500);
+    }
+    purged += expiredIds.length;
+
+    if (expired.length < BATCH_SIZE) break;
+  }
+
+  return json({ purged, files });
+});
@@ -0,0 +1,76 @@
+-- Track when a message was last edited
+ALTER TABLE public.messages
+ADD COLUMN edited_at timestamp with time zone DEFAULT NULL;
+
+-- Previous versions of edited messages
+CREATE TABLE public.message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_edits_message_id_idx ON public.message_edits (message_id, edited_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Participants can read the edit history of messages they can see.
+-- Rows are only ever written by the trigger below, so there is no INSERT policy.
+CREATE POLICY "Users can view edit history of accessible messages"
+ON public.message_edits
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+    AND (is_world_chat(m.conversation_id) OR is_conversation_member(m.conversation_id, auth.uid()))
+  )
+);
+
+-- Senders can only update their own messages while they are not deleted
+DROP POLICY IF EXISTS "Senders can update own messages" ON public.messages;
+
+CREATE POLICY "Senders can update own undeleted messages"
+ON public.messages
+FOR UPDATE
+TO authenticated
+USING (sender_id = auth.uid() AND deleted_at IS NULL)
+WITH CHECK (sender_id = auth.uid());
+
+-- Archive the previous content and stamp edited_at whenever content changes
+CREATE OR REPLACE FUNCTION public.track_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    -- edited_at is server-managed; ignore client-supplied values
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'cannot_edit_deleted_message';
+  END IF;
+
+  IF OLD.media_url IS NOT NULL THEN
+    RAISE EXCEPTION 'cannot_edit_media_message';
+  END IF;
+
+  INSERT INTO public.message_edits (message_id, previous_content)
+  VALUES (OLD.id, OLD.content);
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.track_message_edit() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_content_edited
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.track_message_edit();
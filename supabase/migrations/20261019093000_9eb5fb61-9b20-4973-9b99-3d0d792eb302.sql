@@ -0,0 +1,88 @@
+-- Per-user "delete for me": hides a message from one user's view only
+CREATE TABLE public.hidden_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, message_id)
+);
+
+CREATE INDEX hidden_messages_message_id_idx ON public.hidden_messages (message_id);
+
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Users only ever see their own hidden list
+CREATE POLICY "Users can view own hidden messages"
+ON public.hidden_messages
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- RLS: Users can hide any message they can see, including other people's
+CREATE POLICY "Users can hide accessible messages"
+ON public.hidden_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+    AND (is_world_chat(m.conversation_id) OR is_conversation_member(m.conversation_id, auth.uid()))
+  )
+);
+
+-- RLS: Users can unhide their own hidden messages
+CREATE POLICY "Users can unhide own hidden messages"
+ON public.hidden_messages
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- How long after sending a message its sender may still delete it for everyone.
+-- Keep in sync with DELETE_FOR_EVERYONE_WINDOW_MS in src/lib/constants.ts.
+CREATE OR REPLACE FUNCTION public.delete_for_everyone_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT interval '1 hour'
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_for_everyone_window() TO authenticated;
+
+-- Reject soft deletes (deleted_at being set) once the window has passed
+CREATE OR REPLACE FUNCTION public.enforce_delete_for_everyone_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL
+     AND NEW.deleted_at IS NOT NULL
+     AND OLD.created_at < now() - public.delete_for_everyone_window() THEN
+    RAISE EXCEPTION 'delete_window_expired';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_delete_for_everyone_window() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_deleted_for_everyone
+BEFORE UPDATE OF deleted_at ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_delete_for_everyone_window();
+
+-- Hard deletes are subject to the same window
+DROP POLICY IF EXISTS "Senders can delete own messages" ON public.messages;
+
+CREATE POLICY "Senders can delete own recent messages"
+ON public.messages
+FOR DELETE
+TO authenticated
+USING (
+  sender_id = auth.uid()
+  AND created_at > now() - public.delete_for_everyone_window()
+);
@@ -0,0 +1,3 @@
+-- Mark messages that were forwarded from another conversation
+ALTER TABLE public.messages
+ADD COLUMN is_forwarded boolean NOT NULL DEFAULT false;
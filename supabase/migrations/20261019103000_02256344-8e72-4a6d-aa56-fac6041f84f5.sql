@@ -0,0 +1,95 @@
+-- Participant roles: admins may manage group chats (including World Chat)
+ALTER TABLE public.conversation_participants
+ADD COLUMN role text NOT NULL DEFAULT 'member'
+CHECK (role IN ('member', 'admin'));
+
+-- Who may pin messages: anyone in a 1:1 chat, only admins in group chats and World Chat
+CREATE OR REPLACE FUNCTION public.can_pin_messages(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants cp
+    JOIN public.conversations c ON c.id = cp.conversation_id
+    WHERE cp.conversation_id = _conversation_id
+      AND cp.user_id = _user_id
+      AND (
+        cp.role = 'admin'
+        OR (COALESCE(c.is_group, false) = false AND NOT public.is_world_chat(c.id))
+      )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_pin_messages(uuid, uuid) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_pin_messages(uuid, uuid) TO authenticated;
+
+-- Pinned messages per conversation
+CREATE TABLE public.pinned_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  pinned_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (conversation_id, message_id)
+);
+
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Anyone who can read the conversation can see its pins
+CREATE POLICY "Users can view pins in accessible conversations"
+ON public.pinned_messages
+FOR SELECT
+TO authenticated
+USING (is_world_chat(conversation_id) OR is_conversation_member(conversation_id, auth.uid()));
+
+-- RLS: Permitted members can pin live messages that belong to the conversation
+CREATE POLICY "Permitted members can pin messages"
+ON public.pinned_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  pinned_by = auth.uid()
+  AND public.can_pin_messages(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+    AND m.conversation_id = pinned_messages.conversation_id
+    AND m.deleted_at IS NULL
+  )
+);
+
+-- RLS: Permitted members can unpin
+CREATE POLICY "Permitted members can unpin messages"
+ON public.pinned_messages
+FOR DELETE
+TO authenticated
+USING (public.can_pin_messages(conversation_id, auth.uid()));
+
+-- Drop the pin when a message is deleted for everyone
+CREATE OR REPLACE FUNCTION public.unpin_deleted_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM public.pinned_messages WHERE message_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unpin_deleted_message() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_deleted_unpin
+AFTER UPDATE OF deleted_at ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.unpin_deleted_message();
+
+-- Enable realtime for pinned_messages
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_messages;
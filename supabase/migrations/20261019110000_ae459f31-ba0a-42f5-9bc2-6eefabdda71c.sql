@@ -0,0 +1,40 @@
+-- Per-user bookmarks of messages across all conversations
+CREATE TABLE public.starred_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, message_id)
+);
+
+CREATE INDEX starred_messages_user_id_idx ON public.starred_messages (user_id, created_at DESC);
+
+ALTER TABLE public.starred_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Users only see their own stars
+CREATE POLICY "Users can view own starred messages"
+ON public.starred_messages
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- RLS: Users can star messages they can see
+CREATE POLICY "Users can star accessible messages"
+ON public.starred_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_id
+    AND (is_world_chat(m.conversation_id) OR is_conversation_member(m.conversation_id, auth.uid()))
+  )
+);
+
+-- RLS: Users can unstar their own stars
+CREATE POLICY "Users can unstar own starred messages"
+ON public.starred_messages
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
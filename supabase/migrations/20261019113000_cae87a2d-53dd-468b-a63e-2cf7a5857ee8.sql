@@ -0,0 +1,44 @@
+-- Per-participant read cursors replace the single messages.is_read flag
+ALTER TABLE public.conversation_participants
+ADD COLUMN last_read_at timestamp with time zone;
+
+-- Backfill from the legacy flag: everything up to the newest read message from someone else
+UPDATE public.conversation_participants cp
+SET last_read_at = COALESCE(
+  (
+    SELECT max(m.created_at)
+    FROM public.messages m
+    WHERE m.conversation_id = cp.conversation_id
+      AND m.sender_id <> cp.user_id
+      AND m.is_read = true
+  ),
+  cp.joined_at,
+  now()
+);
+
+ALTER TABLE public.conversation_participants
+ALTER COLUMN last_read_at SET DEFAULT now(),
+ALTER COLUMN last_read_at SET NOT NULL;
+
+-- Move the caller's read cursor forward (recipients only ever touch their own row)
+CREATE OR REPLACE FUNCTION public.mark_messages_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET last_read_at = GREATEST(last_read_at, now())
+  WHERE conversation_id = _conversation_id
+    AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_messages_read(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_messages_read(uuid) TO authenticated;
+
+ALTER TABLE public.messages DROP COLUMN is_read;
+
+-- Enable realtime for conversation_participants so senders see read cursors move
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
@@ -0,0 +1,35 @@
+-- Structured @mentions: the users a message mentions
+ALTER TABLE public.messages
+ADD COLUMN mentions uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX messages_mentions_idx ON public.messages USING GIN (mentions);
+
+-- Only keep mentions of people who can actually read the message: anyone for World Chat,
+-- the participants for every other conversation. Self-mentions and duplicates are dropped.
+CREATE OR REPLACE FUNCTION public.sanitize_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT mentioned_id), '{}')
+  INTO NEW.mentions
+  FROM unnest(COALESCE(NEW.mentions, '{}')) AS mentioned_id
+  WHERE mentioned_id <> NEW.sender_id
+    AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = mentioned_id)
+    AND (
+      is_world_chat(NEW.conversation_id)
+      OR is_conversation_member(NEW.conversation_id, mentioned_id)
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sanitize_message_mentions() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_mentions_changed
+BEFORE INSERT OR UPDATE OF mentions ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.sanitize_message_mentions();
@@ -0,0 +1,23 @@
+-- Cached OpenGraph / Twitter-card metadata for links, filled by the link-preview edge function
+CREATE TABLE public.link_previews (
+  url text PRIMARY KEY,
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  fetched_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Previews only hold public page metadata, so any signed-in user can read them.
+-- Rows are only written by the edge function (service role), so there is no INSERT policy.
+CREATE POLICY "Authenticated users can view link previews"
+ON public.link_previews
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- The link a message shows a preview card for (NULL when the sender removed it or there is none)
+ALTER TABLE public.messages
+ADD COLUMN link_preview_url text DEFAULT NULL;
@@ -0,0 +1,70 @@
+-- Threads: every reply points at the first message of its reply chain
+ALTER TABLE public.messages
+ADD COLUMN thread_root_id uuid REFERENCES public.messages(id) ON DELETE SET NULL DEFAULT NULL;
+
+CREATE INDEX messages_thread_root_id_idx ON public.messages (thread_root_id, created_at);
+
+-- Backfill existing replies by walking their reply chains up to the root
+WITH RECURSIVE chain AS (
+  SELECT id, id AS root_id
+  FROM public.messages
+  WHERE reply_to_id IS NULL
+  UNION ALL
+  SELECT m.id, chain.root_id
+  FROM public.messages m
+  JOIN chain ON m.reply_to_id = chain.id
+)
+UPDATE public.messages m
+SET thread_root_id = chain.root_id
+FROM chain
+WHERE m.id = chain.id
+  AND m.reply_to_id IS NOT NULL;
+
+-- Derive thread_root_id from the replied-to message; clients never set it themselves
+CREATE OR REPLACE FUNCTION public.set_message_thread_root()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.thread_root_id := NULL;
+
+  IF NEW.reply_to_id IS NOT NULL THEN
+    SELECT COALESCE(parent.thread_root_id, parent.id)
+    INTO NEW.thread_root_id
+    FROM public.messages parent
+    WHERE parent.id = NEW.reply_to_id
+      AND parent.conversation_id = NEW.conversation_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_message_thread_root() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_insert_set_thread_root
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_message_thread_root();
+
+-- Reply counts for a page of thread roots (RLS applies, so only visible replies count)
+CREATE OR REPLACE FUNCTION public.get_thread_reply_counts(_root_ids uuid[])
+RETURNS TABLE (
+  root_id uuid,
+  reply_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT thread_root_id, count(*)
+  FROM public.messages
+  WHERE thread_root_id = ANY(_root_ids)
+    AND deleted_at IS NULL
+  GROUP BY thread_root_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_thread_reply_counts(uuid[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_thread_reply_counts(uuid[]) TO authenticated;
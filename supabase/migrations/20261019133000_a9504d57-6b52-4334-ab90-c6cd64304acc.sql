@@ -0,0 +1,76 @@
+-- Full-text search over message content. The 'simple' configuration (no stemming or stop
+-- words) because conversations mix languages.
+CREATE INDEX messages_content_search_idx
+ON public.messages
+USING GIN (to_tsvector('simple', content));
+
+-- Turn what the user typed into a prefix query: "hel wor" matches "hello world"
+CREATE OR REPLACE FUNCTION public.message_search_query(_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(lexeme) || ':*', ' & '))
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(_query, '')))) AS lexeme
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.message_search_query(text) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.message_search_query(text) TO authenticated;
+
+-- Search one conversation, newest first. Matches in the headline are wrapped in U+E000 / U+E001
+-- so the client can highlight them without rendering server-provided HTML.
+CREATE OR REPLACE FUNCTION public.search_conversation_messages(
+  _conversation_id uuid,
+  _query text,
+  _limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  created_at timestamptz,
+  headline text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tsquery tsquery := public.message_search_query(_query);
+BEGIN
+  IF _tsquery IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT (public.is_world_chat(_conversation_id) OR public.is_conversation_member(_conversation_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Not a member of this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'simple',
+      m.content,
+      _tsquery,
+      format('StartSel=%s, StopSel=%s, MaxWords=20, MinWords=8, MaxFragments=2', chr(57344), chr(57345))
+    )
+  FROM public.messages m
+  WHERE m.conversation_id = _conversation_id
+    AND m.deleted_at IS NULL
+    AND to_tsvector('simple', m.content) @@ _tsquery
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id
+        AND h.user_id = auth.uid()
+    )
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 200);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_conversation_messages(uuid, text, integer) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_conversation_messages(uuid, text, integer) TO authenticated;
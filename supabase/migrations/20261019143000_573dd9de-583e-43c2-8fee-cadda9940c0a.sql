@@ -0,0 +1,106 @@
+-- Scheduled messages: composed now, posted as normal messages at send_at by a pg_cron job
+CREATE TABLE public.scheduled_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 10000),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  send_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX scheduled_messages_send_at_idx ON public.scheduled_messages (send_at);
+CREATE INDEX scheduled_messages_sender_idx ON public.scheduled_messages (sender_id, conversation_id, send_at);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Scheduled messages are private to their sender until they are posted
+CREATE POLICY "Users can view own scheduled messages"
+ON public.scheduled_messages
+FOR SELECT
+TO authenticated
+USING (sender_id = auth.uid());
+
+-- RLS: Members can schedule messages into their conversations, for a time in the future
+CREATE POLICY "Members can schedule messages"
+ON public.scheduled_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = auth.uid()
+  AND send_at > now()
+  AND (is_world_chat(conversation_id) OR is_conversation_member(conversation_id, auth.uid()))
+);
+
+-- RLS: Senders can reschedule or rewrite pending messages
+CREATE POLICY "Users can update own scheduled messages"
+ON public.scheduled_messages
+FOR UPDATE
+TO authenticated
+USING (sender_id = auth.uid())
+WITH CHECK (sender_id = auth.uid() AND send_at > now());
+
+-- RLS: Senders can cancel pending messages
+CREATE POLICY "Users can cancel own scheduled messages"
+ON public.scheduled_messages
+FOR DELETE
+TO authenticated
+USING (sender_id = auth.uid());
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+BEFORE UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+-- Post every due message as its sender, then drop it from the schedule. Messages for
+-- conversations the sender has since left are dropped without being posted.
+CREATE OR REPLACE FUNCTION public.deliver_scheduled_messages()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _due public.scheduled_messages%ROWTYPE;
+  _delivered integer := 0;
+BEGIN
+  FOR _due IN
+    SELECT *
+    FROM public.scheduled_messages
+    WHERE send_at <= now()
+    ORDER BY send_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF public.is_world_chat(_due.conversation_id)
+      OR public.is_conversation_member(_due.conversation_id, _due.sender_id) THEN
+      INSERT INTO public.messages (conversation_id, sender_id, content, mentions)
+      VALUES (_due.conversation_id, _due.sender_id, _due.content, _due.mentions);
+
+      UPDATE public.conversations
+      SET updated_at = now()
+      WHERE id = _due.conversation_id;
+
+      _delivered := _delivered + 1;
+    END IF;
+
+    DELETE FROM public.scheduled_messages WHERE id = _due.id;
+  END LOOP;
+
+  RETURN _delivered;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.deliver_scheduled_messages() FROM anon, PUBLIC, authenticated;
+
+-- Run the delivery every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'deliver-scheduled-messages',
+  '* * * * *',
+  $$SELECT public.deliver_scheduled_messages()$$
+);
+
+-- Enable realtime so the sender's pending list updates when messages go out
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scheduled_messages;
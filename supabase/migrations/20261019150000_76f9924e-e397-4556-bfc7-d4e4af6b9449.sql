@@ -0,0 +1,147 @@
+-- Disappearing messages: a per-conversation timer applied to new messages
+ALTER TABLE public.conversations
+ADD COLUMN message_ttl_seconds integer DEFAULT NULL
+CHECK (message_ttl_seconds IN (3600, 86400, 604800, 7776000));
+
+ALTER TABLE public.messages
+ADD COLUMN expires_at timestamp with time zone DEFAULT NULL,
+-- Set on notices the server writes into the timeline, e.g. {"type": "message_ttl", "ttl_seconds": 86400}
+ADD COLUMN system_event jsonb DEFAULT NULL;
+
+CREATE INDEX messages_expires_at_idx ON public.messages (expires_at) WHERE expires_at IS NOT NULL;
+
+-- Stamp new messages with the conversation's timer. System notices stay so the history of
+-- setting changes remains visible.
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ttl integer;
+BEGIN
+  NEW.expires_at := NULL;
+
+  IF NEW.system_event IS NULL THEN
+    SELECT message_ttl_seconds INTO _ttl
+    FROM public.conversations
+    WHERE id = NEW.conversation_id;
+
+    IF _ttl IS NOT NULL THEN
+      NEW.expires_at := now() + make_interval(secs => _ttl);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_message_expiry() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_insert_set_expiry
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_message_expiry();
+
+-- Only the server writes system notices
+CREATE OR REPLACE FUNCTION public.reject_client_system_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.system_event IS NOT NULL AND current_setting('chatshot.system_event', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'System events are written by the server' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reject_client_system_events() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_insert_reject_system_events
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_client_system_events();
+
+-- The timer follows the same rule as pinning: anyone in a 1:1 chat, admins elsewhere
+CREATE OR REPLACE FUNCTION public.guard_message_ttl_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_ttl_seconds IS DISTINCT FROM OLD.message_ttl_seconds
+    AND NOT public.can_pin_messages(NEW.id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to change disappearing messages' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_message_ttl_change() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_conversation_update_guard_message_ttl
+BEFORE UPDATE OF message_ttl_seconds ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_message_ttl_change();
+
+-- Post a notice in the timeline whenever the timer changes
+CREATE OR REPLACE FUNCTION public.announce_message_ttl_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_ttl_seconds IS NOT DISTINCT FROM OLD.message_ttl_seconds THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('chatshot.system_event', 'on', true);
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, system_event)
+  VALUES (
+    NEW.id,
+    auth.uid(),
+    CASE
+      WHEN NEW.message_ttl_seconds IS NULL THEN 'Disappearing messages turned off'
+      ELSE 'Disappearing messages turned on'
+    END,
+    jsonb_build_object('type', 'message_ttl', 'ttl_seconds', NEW.message_ttl_seconds)
+  );
+
+  PERFORM set_config('chatshot.system_event', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.announce_message_ttl_change() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_conversation_update_announce_message_ttl
+AFTER UPDATE OF message_ttl_seconds ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.announce_message_ttl_change();
+
+-- Purge: the purge-expired-messages edge function deletes expired rows and their chat-media
+-- objects. It runs every 5 minutes via pg_net; the project URL and service role key are read
+-- from Vault secrets named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-expired-messages',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-expired-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,193 @@
+-- Polls: a message with media_type 'poll' plus its question, options and votes
+CREATE TABLE public.polls (
+  message_id uuid PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question text NOT NULL CHECK (char_length(question) BETWEEN 1 AND 300),
+  options text[] NOT NULL CHECK (array_length(options, 1) BETWEEN 2 AND 10),
+  allows_multiple boolean NOT NULL DEFAULT false,
+  is_anonymous boolean NOT NULL DEFAULT false,
+  closed_at timestamp with time zone DEFAULT NULL,
+  -- Bumped on every vote so clients can follow results through realtime, even for anonymous polls
+  votes_updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX polls_conversation_id_idx ON public.polls (conversation_id);
+
+CREATE TABLE public.poll_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.polls(message_id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  option_index integer NOT NULL CHECK (option_index >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, option_index)
+);
+
+CREATE INDEX poll_votes_message_id_idx ON public.poll_votes (message_id);
+
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- RLS: Anyone who can read the conversation can see its polls.
+-- Polls are created, voted on and closed only through the functions below.
+CREATE POLICY "Users can view polls in accessible conversations"
+ON public.polls
+FOR SELECT
+TO authenticated
+USING (is_world_chat(conversation_id) OR is_conversation_member(conversation_id, auth.uid()));
+
+-- RLS: Own votes are always visible; other people's only in public polls
+CREATE POLICY "Users can view votes they may see"
+ON public.poll_votes
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.polls p
+    WHERE p.message_id = poll_votes.message_id
+      AND NOT p.is_anonymous
+      AND (is_world_chat(p.conversation_id) OR is_conversation_member(p.conversation_id, auth.uid()))
+  )
+);
+
+-- Post a poll message and its poll in one go
+CREATE OR REPLACE FUNCTION public.create_poll(
+  _conversation_id uuid,
+  _question text,
+  _options text[],
+  _allows_multiple boolean DEFAULT false,
+  _is_anonymous boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message_id uuid;
+  _clean_options text[];
+BEGIN
+  IF NOT (public.is_world_chat(_conversation_id) OR public.is_conversation_member(_conversation_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Not a member of this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT array_agg(trim(option) ORDER BY ordinality)
+  INTO _clean_options
+  FROM unnest(_options) WITH ORDINALITY AS o(option, ordinality)
+  WHERE trim(option) <> '';
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, media_type)
+  VALUES (_conversation_id, auth.uid(), '📊 ' || trim(_question), 'poll')
+  RETURNING id INTO _message_id;
+
+  INSERT INTO public.polls (message_id, conversation_id, created_by, question, options, allows_multiple, is_anonymous)
+  VALUES (_message_id, _conversation_id, auth.uid(), trim(_question), _clean_options, _allows_multiple, _is_anonymous);
+
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = _conversation_id;
+
+  RETURN _message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_poll(uuid, text, text[], boolean, boolean) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_poll(uuid, text, text[], boolean, boolean) TO authenticated;
+
+-- Replace the caller's votes in a poll; an empty array retracts them
+CREATE OR REPLACE FUNCTION public.vote_in_poll(_message_id uuid, _option_indexes integer[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _poll public.polls%ROWTYPE;
+  _choices integer[] := ARRAY(SELECT DISTINCT unnest(COALESCE(_option_indexes, '{}')));
+BEGIN
+  SELECT * INTO _poll FROM public.polls WHERE message_id = _message_id;
+
+  IF NOT FOUND
+    OR NOT (public.is_world_chat(_poll.conversation_id) OR public.is_conversation_member(_poll.conversation_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _poll.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This poll is closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _poll.allows_multiple AND cardinality(_choices) > 1 THEN
+    RAISE EXCEPTION 'This poll allows one choice' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_choices) AS choice WHERE choice < 0 OR choice >= cardinality(_poll.options)) THEN
+    RAISE EXCEPTION 'Invalid poll option' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE message_id = _message_id
+    AND user_id = auth.uid();
+
+  INSERT INTO public.poll_votes (message_id, user_id, option_index)
+  SELECT _message_id, auth.uid(), choice
+  FROM unnest(_choices) AS choice;
+
+  UPDATE public.polls
+  SET votes_updated_at = now()
+  WHERE message_id = _message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vote_in_poll(uuid, integer[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.vote_in_poll(uuid, integer[]) TO authenticated;
+
+-- Only the creator can close their poll
+CREATE OR REPLACE FUNCTION public.close_poll(_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.polls
+  SET closed_at = now()
+  WHERE message_id = _message_id
+    AND created_by = auth.uid()
+    AND closed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the poll creator can close an open poll' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_poll(uuid) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.close_poll(uuid) TO authenticated;
+
+-- Vote counts per option (also for anonymous polls, whose individual votes stay hidden)
+CREATE OR REPLACE FUNCTION public.get_poll_results(_message_ids uuid[])
+RETURNS TABLE (
+  message_id uuid,
+  option_index integer,
+  vote_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.message_id, v.option_index, count(*)
+  FROM public.poll_votes v
+  JOIN public.polls p ON p.message_id = v.message_id
+  WHERE v.message_id = ANY(_message_ids)
+    AND (public.is_world_chat(p.conversation_id) OR public.is_conversation_member(p.conversation_id, auth.uid()))
+  GROUP BY v.message_id, v.option_index
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_poll_results(uuid[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_poll_results(uuid[]) TO authenticated;
+
+-- Enable realtime for polls (vote bumps and closing)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.polls;
@@ -0,0 +1,4 @@
+-- Voice messages: media_type 'audio' rows carry their duration and a waveform computed while recording,
+-- e.g. {"duration": 12.4, "waveform": [0.1, 0.6, ...]}
+ALTER TABLE public.messages
+ADD COLUMN media_metadata jsonb DEFAULT NULL;
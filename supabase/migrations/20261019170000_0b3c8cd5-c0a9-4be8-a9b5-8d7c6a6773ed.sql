@@ -0,0 +1,4 @@
+-- Each user's own quick-reaction row; NULL means the app's default set
+ALTER TABLE public.profiles
+ADD COLUMN quick_reactions text[] DEFAULT NULL
+CHECK (quick_reactions IS NULL OR cardinality(quick_reactions) BETWEEN 1 AND 6);
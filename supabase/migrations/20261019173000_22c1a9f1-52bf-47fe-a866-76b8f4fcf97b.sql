@@ -0,0 +1,129 @@
+-- Reactions carry their conversation, so they can be read and relayed per conversation
+ALTER TABLE public.message_reactions
+ADD COLUMN conversation_id uuid REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+UPDATE public.message_reactions r
+SET conversation_id = m.conversation_id
+FROM public.messages m
+WHERE m.id = r.message_id;
+
+ALTER TABLE public.message_reactions
+ALTER COLUMN conversation_id SET NOT NULL;
+
+CREATE INDEX message_reactions_conversation_id_idx ON public.message_reactions (conversation_id);
+
+-- Filled in from the message, so clients never choose it
+CREATE OR REPLACE FUNCTION public.set_reaction_conversation_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT conversation_id INTO NEW.conversation_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_reaction_conversation_id() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER set_reaction_conversation_id
+BEFORE INSERT ON public.message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_reaction_conversation_id();
+
+-- RLS: check the reaction's own conversation instead of joining messages for every row
+DROP POLICY IF EXISTS "Users can view reactions on accessible messages" ON public.message_reactions;
+CREATE POLICY "Users can view reactions on accessible messages"
+ON public.message_reactions
+FOR SELECT
+USING (is_world_chat(conversation_id) OR is_conversation_member(conversation_id, auth.uid()));
+
+-- Relay: every added or removed reaction is broadcast on the private topic "reactions:<conversation id>".
+-- Postgres changes on the table reached every subscriber in the database (and DELETE events can't
+-- be filtered), which doesn't hold up for World Chat.
+CREATE OR REPLACE FUNCTION public.relay_reaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reaction public.message_reactions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _reaction := OLD;
+  ELSE
+    _reaction := NEW;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', _reaction.id,
+      'message_id', _reaction.message_id,
+      'user_id', _reaction.user_id,
+      'emoji', _reaction.emoji
+    ),
+    CASE WHEN TG_OP = 'DELETE' THEN 'reaction_removed' ELSE 'reaction_added' END,
+    'reactions:' || _reaction.conversation_id,
+    true
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.relay_reaction_change() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER relay_reaction_change
+AFTER INSERT OR DELETE ON public.message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.relay_reaction_change();
+
+-- RLS: only people who can read a conversation may join its reactions topic
+CREATE POLICY "Members can receive reaction broadcasts"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.topic() LIKE 'reactions:%'
+  AND (
+    public.is_world_chat(split_part(realtime.topic(), ':', 2)::uuid)
+    OR public.is_conversation_member(split_part(realtime.topic(), ':', 2)::uuid, auth.uid())
+  )
+);
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.message_reactions;
+
+-- Reactions grouped per message and emoji, with whether the caller reacted and the first few reactors
+CREATE OR REPLACE FUNCTION public.get_reaction_summaries(_message_ids uuid[])
+RETURNS TABLE (
+  message_id uuid,
+  emoji text,
+  reaction_count bigint,
+  reacted_by_me boolean,
+  sample_user_ids uuid[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.message_id,
+    r.emoji,
+    count(*),
+    bool_or(r.user_id = auth.uid()),
+    (array_agg(r.user_id ORDER BY r.created_at))[1:8]
+  FROM public.message_reactions r
+  WHERE r.message_id = ANY(_message_ids)
+    AND (public.is_world_chat(r.conversation_id) OR public.is_conversation_member(r.conversation_id, auth.uid()))
+  GROUP BY r.message_id, r.emoji
+  ORDER BY r.message_id, min(r.created_at)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_reaction_summaries(uuid[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_reaction_summaries(uuid[]) TO authenticated;
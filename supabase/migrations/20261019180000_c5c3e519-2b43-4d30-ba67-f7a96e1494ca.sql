@@ -0,0 +1,106 @@
+-- Conversation summaries: everything the chat list shows, one row per conversation in one query.
+-- Replaces the per-conversation queries for the participant count, last message, sender and unread counts.
+CREATE INDEX messages_conversation_created_at_idx ON public.messages (conversation_id, created_at DESC);
+
+-- Pages are ordered by (updated_at, id), newest first; pass the last row's values to get the next page.
+-- World Chat always comes first, on the first page. _conversation_id returns just that conversation.
+CREATE OR REPLACE FUNCTION public.get_conversation_summaries(
+  _limit integer DEFAULT NULL,
+  _before_updated_at timestamptz DEFAULT NULL,
+  _before_id uuid DEFAULT NULL,
+  _conversation_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  is_group boolean,
+  name text,
+  theme text,
+  updated_at timestamptz,
+  participant_count bigint,
+  other_user_id uuid,
+  other_username text,
+  other_full_name text,
+  other_avatar_url text,
+  other_is_online boolean,
+  other_last_seen timestamptz,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_created_at timestamptz,
+  last_message_sender_id uuid,
+  last_message_sender_name text,
+  unread_count bigint,
+  mention_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    COALESCE(c.is_group, false),
+    c.name,
+    c.theme,
+    c.updated_at,
+    (SELECT count(*) FROM public.conversation_participants p WHERE p.conversation_id = c.id),
+    other.id,
+    other.username,
+    other.full_name,
+    other.avatar_url,
+    other.is_online,
+    other.last_seen,
+    last_message.id,
+    last_message.content,
+    last_message.created_at,
+    last_message.sender_id,
+    COALESCE(sender.full_name, sender.username, 'Unknown'),
+    unread.unread_count,
+    unread.mention_count
+  FROM public.conversation_participants cp
+  JOIN public.conversations c ON c.id = cp.conversation_id
+  -- 1:1 chats are shown as the other participant
+  LEFT JOIN LATERAL (
+    SELECT p.id, p.username, p.full_name, p.avatar_url, COALESCE(p.is_online, false) AS is_online, p.last_seen
+    FROM public.conversation_participants op
+    JOIN public.profiles p ON p.id = op.user_id
+    WHERE op.conversation_id = c.id
+      AND op.user_id != auth.uid()
+      AND NOT COALESCE(c.is_group, false)
+      AND NOT public.is_world_chat(c.id)
+    LIMIT 1
+  ) other ON true
+  -- Latest message that hasn't expired or been hidden by the user
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.content, m.created_at, m.sender_id
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND (m.expires_at IS NULL OR m.expires_at > now())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.hidden_messages h
+        WHERE h.message_id = m.id AND h.user_id = auth.uid()
+      )
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN public.profiles sender ON sender.id = last_message.sender_id
+  -- Messages from others after the user's read cursor, and those that @mention the user
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE m.sender_id != auth.uid()) AS unread_count,
+      count(*) FILTER (WHERE auth.uid() = ANY (m.mentions)) AS mention_count
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.created_at > cp.last_read_at
+  ) unread ON true
+  WHERE cp.user_id = auth.uid()
+    AND (_conversation_id IS NULL OR c.id = _conversation_id)
+    AND (
+      _before_updated_at IS NULL
+      OR (NOT public.is_world_chat(c.id) AND (c.updated_at, c.id) < (_before_updated_at, _before_id))
+    )
+  ORDER BY public.is_world_chat(c.id) DESC, c.updated_at DESC NULLS LAST, c.id DESC
+  LIMIT _limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_conversation_summaries(integer, timestamptz, uuid, uuid) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_conversation_summaries(integer, timestamptz, uuid, uuid) TO authenticated;
@@ -0,0 +1,61 @@
+-- Group admins: the member who creates a group chat becomes its admin, so the admin-only
+-- features (pinning, disappearing messages) can actually be used in groups.
+-- World Chat has no creator; its admins are still appointed with the service role.
+ALTER TABLE public.conversations
+ADD COLUMN created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Roles are assigned here rather than trusted from the client: the creator joins their
+-- group as admin, everyone else as a member
+CREATE OR REPLACE FUNCTION public.set_participant_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The service role and the database itself may still set roles explicitly
+  IF COALESCE(auth.role(), 'service_role') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.role := CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.conversations c
+      WHERE c.id = NEW.conversation_id
+        AND COALESCE(c.is_group, false)
+        AND NOT public.is_world_chat(c.id)
+        AND c.created_by = NEW.user_id
+    ) THEN 'admin'
+    ELSE 'member'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_participant_role() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_participant_added_set_role
+BEFORE INSERT ON public.conversation_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.set_participant_role();
+
+-- Existing groups don't know their creator: the earliest member to join becomes admin
+-- where a group has none yet
+UPDATE public.conversation_participants cp
+SET role = 'admin'
+FROM (
+  SELECT DISTINCT ON (cp.conversation_id) cp.id
+  FROM public.conversation_participants cp
+  JOIN public.conversations c ON c.id = cp.conversation_id
+  WHERE COALESCE(c.is_group, false)
+    AND NOT public.is_world_chat(c.id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.conversation_participants admins
+      WHERE admins.conversation_id = cp.conversation_id
+        AND admins.role = 'admin'
+    )
+  ORDER BY cp.conversation_id, cp.joined_at NULLS LAST, cp.id
+) first_member
+WHERE cp.id = first_member.id;
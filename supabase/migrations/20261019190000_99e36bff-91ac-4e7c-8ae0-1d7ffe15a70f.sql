@@ -0,0 +1,22 @@
+-- Senders may edit their own messages, but the disappearing-message timer and system notices
+-- are server-managed: keep whatever a client update supplies for them
+CREATE OR REPLACE FUNCTION public.preserve_server_message_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') IN ('anon', 'authenticated') THEN
+    NEW.expires_at := OLD.expires_at;
+    NEW.system_event := OLD.system_event;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preserve_server_message_fields() FROM anon, PUBLIC, authenticated;
+
+CREATE TRIGGER on_message_update_preserve_server_fields
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.preserve_server_message_fields();
@@ -0,0 +1,155 @@
+-- Global search fixes: typed text is matched literally (% and _ are not wildcards), and
+-- disappearing messages whose timer has run out are left out before the purge job runs.
+
+-- Escape LIKE/ILIKE wildcards so user input only matches itself (backslash is the default escape)
+CREATE OR REPLACE FUNCTION public.escape_like_pattern(_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT replace(replace(replace(coalesce(_text, ''), '\', '\\'), '%', '\%'), '_', '\_')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escape_like_pattern(text) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.escape_like_pattern(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_conversations(_query text)
+RETURNS TABLE (
+  conversation_id uuid,
+  name text,
+  other_user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    other.id,
+    other.username,
+    other.full_name,
+    other.avatar_url,
+    c.updated_at
+  FROM public.conversations c
+  -- 1:1 chats are shown as the other participant
+  LEFT JOIN LATERAL (
+    SELECT p.id, p.username, p.full_name, p.avatar_url
+    FROM public.conversation_participants cp
+    JOIN public.profiles p ON p.id = cp.user_id
+    WHERE cp.conversation_id = c.id
+      AND cp.user_id != auth.uid()
+      AND NOT COALESCE(c.is_group, false)
+      AND NOT public.is_world_chat(c.id)
+    LIMIT 1
+  ) other ON true
+  WHERE
+    (public.is_world_chat(c.id) OR public.is_conversation_member(c.id, auth.uid()))
+    AND (
+      (public.is_world_chat(c.id) AND 'World Chat' ILIKE '%' || public.escape_like_pattern(_query) || '%')
+      OR c.name ILIKE '%' || public.escape_like_pattern(_query) || '%'
+      OR EXISTS (
+        SELECT 1
+        FROM public.conversation_participants cp
+        JOIN public.profiles p ON p.id = cp.user_id
+        WHERE cp.conversation_id = c.id
+          AND cp.user_id != auth.uid()
+          AND NOT public.is_world_chat(c.id)
+          AND (p.username ILIKE '%' || public.escape_like_pattern(_query) || '%' OR p.full_name ILIKE '%' || public.escape_like_pattern(_query) || '%')
+      )
+    )
+  ORDER BY c.updated_at DESC
+  LIMIT 10
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_conversations(text) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_conversations(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_messages(_query text, _limit integer DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  created_at timestamptz,
+  headline text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'simple',
+      m.content,
+      public.message_search_query(_query),
+      format('StartSel=%s, StopSel=%s, MaxWords=20, MinWords=8, MaxFragments=2', chr(57344), chr(57345))
+    )
+  FROM public.messages m
+  WHERE to_tsvector('simple', m.content) @@ public.message_search_query(_query)
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    -- File labels are searched as files
+    AND NOT (m.media_type = 'document' AND m.content LIKE '📎%')
+    AND (public.is_world_chat(m.conversation_id) OR public.is_conversation_member(m.conversation_id, auth.uid()))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id
+        AND h.user_id = auth.uid()
+    )
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_messages(text, integer) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_messages(text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_shared_files(_query text, _limit integer DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  created_at timestamptz,
+  file_name text,
+  media_url text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    trim(substring(m.content FROM 2)),
+    m.media_url
+  FROM public.messages m
+  WHERE m.media_type = 'document'
+    AND m.content LIKE '📎%'
+    AND substring(m.content FROM 2) ILIKE '%' || public.escape_like_pattern(_query) || '%'
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND (public.is_world_chat(m.conversation_id) OR public.is_conversation_member(m.conversation_id, auth.uid()))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id
+        AND h.user_id = auth.uid()
+    )
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_shared_files(text, integer) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_shared_files(text, integer) TO authenticated;
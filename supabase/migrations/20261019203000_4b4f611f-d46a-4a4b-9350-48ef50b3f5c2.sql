@@ -0,0 +1,52 @@
+-- Votes only count on polls whose message is still there (not deleted for everyone or expired)
+CREATE OR REPLACE FUNCTION public.vote_in_poll(_message_id uuid, _option_indexes integer[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _poll public.polls%ROWTYPE;
+  _choices integer[] := ARRAY(SELECT DISTINCT unnest(COALESCE(_option_indexes, '{}')));
+BEGIN
+  SELECT * INTO _poll FROM public.polls WHERE message_id = _message_id;
+
+  IF NOT FOUND
+    OR NOT (public.is_world_chat(_poll.conversation_id) OR public.is_conversation_member(_poll.conversation_id, auth.uid()))
+    OR NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.id = _message_id
+        AND m.deleted_at IS NULL
+        AND (m.expires_at IS NULL OR m.expires_at > now())
+    ) THEN
+    RAISE EXCEPTION 'Poll not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _poll.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This poll is closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT _poll.allows_multiple AND cardinality(_choices) > 1 THEN
+    RAISE EXCEPTION 'This poll allows one choice' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_choices) AS choice WHERE choice < 0 OR choice >= cardinality(_poll.options)) THEN
+    RAISE EXCEPTION 'Invalid poll option' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE message_id = _message_id
+    AND user_id = auth.uid();
+
+  INSERT INTO public.poll_votes (message_id, user_id, option_index)
+  SELECT _message_id, auth.uid(), choice
+  FROM unnest(_choices) AS choice;
+
+  UPDATE public.polls
+  SET votes_updated_at = now()
+  WHERE message_id = _message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vote_in_poll(uuid, integer[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.vote_in_poll(uuid, integer[]) TO authenticated;
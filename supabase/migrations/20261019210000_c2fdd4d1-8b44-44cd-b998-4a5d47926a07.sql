@@ -0,0 +1,26 @@
+-- Quick reactions must be distinct; collapse any saved duplicates before adding the check
+CREATE OR REPLACE FUNCTION public.has_distinct_elements(_values text[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT cardinality(_values) = (SELECT count(DISTINCT value) FROM unnest(_values) AS value)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_distinct_elements(text[]) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.has_distinct_elements(text[]) TO authenticated;
+
+UPDATE public.profiles
+SET quick_reactions = ARRAY(
+  SELECT emoji
+  FROM unnest(quick_reactions) WITH ORDINALITY AS reaction(emoji, position)
+  GROUP BY emoji
+  ORDER BY min(position)
+)
+WHERE quick_reactions IS NOT NULL
+  AND NOT public.has_distinct_elements(quick_reactions);
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_quick_reactions_distinct
+CHECK (quick_reactions IS NULL OR public.has_distinct_elements(quick_reactions));
@@ -0,0 +1,20 @@
+-- The delete-for-everyone window is measured from created_at, so a sender must not be able to
+-- move it. Client updates keep the send time, conversation and thread placement as they were.
+CREATE OR REPLACE FUNCTION public.preserve_server_message_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') IN ('anon', 'authenticated') THEN
+    NEW.created_at := OLD.created_at;
+    NEW.conversation_id := OLD.conversation_id;
+    NEW.reply_to_id := OLD.reply_to_id;
+    NEW.thread_root_id := OLD.thread_root_id;
+    NEW.is_forwarded := OLD.is_forwarded;
+    NEW.expires_at := OLD.expires_at;
+    NEW.system_event := OLD.system_event;
+  END IF;
+  RETURN NEW;
+END;
+$$;
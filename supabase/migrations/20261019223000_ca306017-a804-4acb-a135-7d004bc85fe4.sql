@@ -0,0 +1,49 @@
+-- Disappearing-message timers can also be changed by the service role or a job, where there is
+-- no signed-in user. Only client changes go through the pinning rule, and the notice is posted
+-- on behalf of the conversation's creator, or left out when there is nobody to post it as.
+CREATE OR REPLACE FUNCTION public.guard_message_ttl_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_ttl_seconds IS DISTINCT FROM OLD.message_ttl_seconds
+    AND COALESCE(auth.role(), 'service_role') IN ('anon', 'authenticated')
+    AND NOT public.can_pin_messages(NEW.id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to change disappearing messages' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.announce_message_ttl_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor uuid := COALESCE(auth.uid(), NEW.created_by);
+BEGIN
+  IF NEW.message_ttl_seconds IS NOT DISTINCT FROM OLD.message_ttl_seconds OR _actor IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('chatshot.system_event', 'on', true);
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, system_event)
+  VALUES (
+    NEW.id,
+    _actor,
+    CASE
+      WHEN NEW.message_ttl_seconds IS NULL THEN 'Disappearing messages turned off'
+      ELSE 'Disappearing messages turned on'
+    END,
+    jsonb_build_object('type', 'message_ttl', 'ttl_seconds', NEW.message_ttl_seconds)
+  );
+
+  PERFORM set_config('chatshot.system_event', 'off', true);
+  RETURN NEW;
+END;
+$$;
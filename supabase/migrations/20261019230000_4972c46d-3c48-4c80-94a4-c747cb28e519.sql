@@ -0,0 +1,22 @@
+-- Reply counts match the thread panel and timeline: replies the user hid or that have expired
+-- aren't counted (RLS still applies, so only visible replies count)
+CREATE OR REPLACE FUNCTION public.get_thread_reply_counts(_root_ids uuid[])
+RETURNS TABLE (
+  root_id uuid,
+  reply_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.thread_root_id, count(*)
+  FROM public.messages m
+  WHERE m.thread_root_id = ANY(_root_ids)
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  GROUP BY m.thread_root_id
+$$;
@@ -0,0 +1,62 @@
+-- Senders can edit their messages but not the fields the server owns:
+--   supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-0000000000a1', '{"username": "sender"}');
+
+INSERT INTO public.conversations (id)
+VALUES ('00000000-0000-0000-0000-0000000000c1');
+
+INSERT INTO public.conversation_participants (conversation_id, user_id)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1');
+
+INSERT INTO public.messages (id, conversation_id, sender_id, content, created_at)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Sent two hours ago',
+  now() - interval '2 hours'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}',
+  true
+);
+
+UPDATE public.messages
+SET created_at = now(), content = 'Edited'
+WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT is(
+  (SELECT content FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'Edited',
+  'the sender can still edit the content'
+);
+
+SELECT ok(
+  (SELECT created_at < now() - interval '1 hour' FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'an edited created_at is ignored'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.messages SET deleted_at = now() WHERE id = '00000000-0000-0000-0000-0000000000e1'$$,
+  'delete_window_expired',
+  'the message still cannot be deleted for everyone once the window has passed'
+);
+
+DELETE FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000e1';
+
+SELECT is(
+  (SELECT count(*) FROM public.messages WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  1::bigint,
+  'the message cannot be hard-deleted once the window has passed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;